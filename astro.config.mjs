@@ -1,4 +1,4 @@
-import { defineConfig } from 'astro/config';
+import { defineConfig, envField } from 'astro/config';
 import tailwind from '@astrojs/tailwind';
 import react from '@astrojs/react';
 import node from '@astrojs/node';
@@ -10,5 +10,24 @@ export default defineConfig({
     mode: 'standalone'}),
   server: {
     port: 4321
+  },
+  env: {
+    schema: {
+      // Baked into the client bundle at build time
+      PUBLIC_API_BASE_URL: envField.string({ context: 'client', access: 'public', optional: true, url: true }),
+      PUBLIC_STAGING_API_BASE_URL: envField.string({ context: 'client', access: 'public', optional: true, url: true }),
+      PUBLIC_LOCAL_API_BASE_URL: envField.string({ context: 'client', access: 'public', optional: true, url: true }),
+      // Read per request by the node server, overrides the build-time default
+      API_BASE_URL: envField.string({ context: 'server', access: 'secret', optional: true, url: true }),
+      // 'mock' serves every endpoint from the in-process fixtures under /api/mock
+      PUBLIC_API_MODE: envField.enum({ context: 'client', access: 'public', values: ['live', 'mock'], default: 'live' }),
+      // SSO providers are offered on the login form only when their client id is set
+      OAUTH_GOOGLE_CLIENT_ID: envField.string({ context: 'server', access: 'secret', optional: true }),
+      OAUTH_GOOGLE_CLIENT_SECRET: envField.string({ context: 'server', access: 'secret', optional: true }),
+      OAUTH_GITHUB_CLIENT_ID: envField.string({ context: 'server', access: 'secret', optional: true }),
+      OAUTH_GITHUB_CLIENT_SECRET: envField.string({ context: 'server', access: 'secret', optional: true }),
+      // Public origin used to build the callback URL when behind a proxy
+      OAUTH_REDIRECT_ORIGIN: envField.string({ context: 'server', access: 'secret', optional: true, url: true }),
+    }
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,248 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, Loader2 } from 'lucide-react';
+import { authService } from '../services/api';
+import { describeError, isApiError } from '../services/apiError';
+import { PASSWORD_MIN_LENGTH, passwordProblem, type Account } from '../models';
+
+interface AccountSettingsProps {
+  addNotification: (type: 'success' | 'error' | 'info' | 'warning', message: string) => void;
+}
+
+type FieldErrors = Record<string, string>;
+
+// Field errors from the backend keyed by its field names, so they can sit
+// under the matching input instead of in a banner
+const fieldErrorsOf = (err: unknown): FieldErrors =>
+  isApiError(err) ? Object.fromEntries(err.fieldErrors.map(e => [e.field, e.message])) : {};
+
+const inputClass = (invalid: boolean) =>
+  `mt-1 block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${invalid ? 'border-red-300' : 'border-gray-300'}`;
+
+const AccountSettings: React.FC<AccountSettingsProps> = ({ addNotification }) => {
+  const [account, setAccount] = useState<Account | null>(null);
+  const [isResending, setIsResending] = useState(false);
+
+  const [newEmail, setNewEmail] = useState('');
+  const [emailPassword, setEmailPassword] = useState('');
+  const [emailErrors, setEmailErrors] = useState<FieldErrors>({});
+  const [isSavingEmail, setIsSavingEmail] = useState(false);
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [passwordErrors, setPasswordErrors] = useState<FieldErrors>({});
+  const [isSavingPassword, setIsSavingPassword] = useState(false);
+
+  const loadAccount = async () => {
+    try {
+      setAccount(await authService.getAccount());
+    } catch (err) {
+      addNotification('error', describeError(err, 'Failed to load account details'));
+    }
+  };
+
+  useEffect(() => {
+    loadAccount();
+  }, []);
+
+  const handleResend = async () => {
+    setIsResending(true);
+    try {
+      await authService.resendVerification();
+      addNotification('success', `Verification email sent to ${account?.email}`);
+    } catch (err) {
+      addNotification('error', describeError(err, 'Failed to send verification email'));
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  const handleEmailChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setEmailErrors({});
+    if (newEmail === account?.email) {
+      setEmailErrors({ email: 'This is already your email address' });
+      return;
+    }
+
+    setIsSavingEmail(true);
+    try {
+      await authService.updateEmail(newEmail, emailPassword);
+      addNotification('success', 'Email updated. Check your inbox to verify the new address.');
+      setNewEmail('');
+      setEmailPassword('');
+      loadAccount();
+    } catch (err) {
+      const errors = fieldErrorsOf(err);
+      setEmailErrors(errors);
+      if (Object.keys(errors).length === 0) {
+        addNotification('error', describeError(err, 'Failed to update email'));
+      }
+    } finally {
+      setIsSavingEmail(false);
+    }
+  };
+
+  const handlePasswordChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = passwordProblem(newPassword);
+    if (problem || newPassword !== confirmPassword) {
+      setPasswordErrors({
+        ...(problem ? { new_password: problem } : {}),
+        ...(newPassword !== confirmPassword ? { confirm_password: "Passwords don't match" } : {}),
+      });
+      return;
+    }
+    setPasswordErrors({});
+
+    setIsSavingPassword(true);
+    try {
+      await authService.changePassword(currentPassword, newPassword);
+      addNotification('success', 'Password changed successfully');
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+    } catch (err) {
+      const errors = fieldErrorsOf(err);
+      setPasswordErrors(errors);
+      if (Object.keys(errors).length === 0) {
+        addNotification('error', describeError(err, 'Failed to change password'));
+      }
+    } finally {
+      setIsSavingPassword(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-8 mb-8">
+      <h2 className="text-xl font-semibold mb-6">Account</h2>
+
+      {/* Email status */}
+      <div className="mb-8">
+        {!account ? (
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        ) : (
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-gray-900 font-medium">{account.email}</span>
+            {account.email_verified ? (
+              <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                <CheckCircle className="h-3 w-3" /> Verified
+              </span>
+            ) : (
+              <>
+                <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                  <AlertTriangle className="h-3 w-3" /> Not verified
+                </span>
+                <button
+                  onClick={handleResend}
+                  disabled={isResending}
+                  className="text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                >
+                  {isResending ? 'Sending...' : 'Resend verification email'}
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Change email */}
+      <div className="border-t border-gray-200 pt-8 mb-8">
+        <h3 className="text-lg font-medium mb-3">Change Email</h3>
+        <form onSubmit={handleEmailChange} className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <div>
+            <label htmlFor="account-email" className="block text-sm font-medium text-gray-700 mb-1">New email</label>
+            <input
+              type="email"
+              id="account-email"
+              value={newEmail}
+              onChange={(e) => setNewEmail(e.target.value)}
+              className={inputClass(!!emailErrors.email)}
+              required
+            />
+            {emailErrors.email && <p className="mt-1 text-xs text-red-600">{emailErrors.email}</p>}
+          </div>
+          <div>
+            <label htmlFor="account-email-password" className="block text-sm font-medium text-gray-700 mb-1">Current password</label>
+            <input
+              type="password"
+              id="account-email-password"
+              value={emailPassword}
+              onChange={(e) => setEmailPassword(e.target.value)}
+              className={inputClass(!!emailErrors.current_password)}
+              required
+            />
+            {emailErrors.current_password && <p className="mt-1 text-xs text-red-600">{emailErrors.current_password}</p>}
+          </div>
+          <div>
+            <button
+              type="submit"
+              disabled={isSavingEmail || !newEmail || !emailPassword}
+              className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-md shadow transition-colors duration-200 flex items-center"
+            >
+              {isSavingEmail && <Loader2 className="animate-spin h-4 w-4 mr-2" />}
+              <span>{isSavingEmail ? 'Saving...' : 'Update Email'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {/* Change password */}
+      <div className="border-t border-gray-200 pt-8">
+        <h3 className="text-lg font-medium mb-3">Change Password</h3>
+        <form onSubmit={handlePasswordChange} className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div>
+            <label htmlFor="current-password" className="block text-sm font-medium text-gray-700 mb-1">Current password</label>
+            <input
+              type="password"
+              id="current-password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              className={inputClass(!!passwordErrors.current_password)}
+              required
+            />
+            {passwordErrors.current_password && <p className="mt-1 text-xs text-red-600">{passwordErrors.current_password}</p>}
+          </div>
+          <div>
+            <label htmlFor="account-new-password" className="block text-sm font-medium text-gray-700 mb-1">New password</label>
+            <input
+              type="password"
+              id="account-new-password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              className={inputClass(!!passwordErrors.new_password)}
+              required
+            />
+            <p className={`mt-1 text-xs ${passwordErrors.new_password ? 'text-red-600' : 'text-gray-500'}`}>
+              {passwordErrors.new_password ?? `At least ${PASSWORD_MIN_LENGTH} characters, with letters and numbers.`}
+            </p>
+          </div>
+          <div>
+            <label htmlFor="account-confirm-password" className="block text-sm font-medium text-gray-700 mb-1">Confirm new password</label>
+            <input
+              type="password"
+              id="account-confirm-password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className={inputClass(!!passwordErrors.confirm_password)}
+              required
+            />
+            {passwordErrors.confirm_password && <p className="mt-1 text-xs text-red-600">{passwordErrors.confirm_password}</p>}
+          </div>
+          <div>
+            <button
+              type="submit"
+              disabled={isSavingPassword || !currentPassword || !newPassword || !confirmPassword}
+              className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-md shadow transition-colors duration-200 flex items-center"
+            >
+              {isSavingPassword && <Loader2 className="animate-spin h-4 w-4 mr-2" />}
+              <span>{isSavingPassword ? 'Saving...' : 'Change Password'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AccountSettings;
@@ -0,0 +1,40 @@
+import React, { useState } from 'react';
+import { Server } from 'lucide-react';
+import { getActiveProfile, getProfiles, setActiveProfile, type ProfileId } from '../config/apiProfiles';
+
+interface BackendProfileSwitcherProps {
+  // Called before the page reloads against the new backend
+  onSwitch?: () => void | Promise<void>;
+}
+
+const BackendProfileSwitcher: React.FC<BackendProfileSwitcherProps> = ({ onSwitch }) => {
+  const [profiles] = useState(getProfiles);
+  const [active] = useState(getActiveProfile);
+
+  const handleChange = async (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const id = event.target.value as ProfileId;
+    if (id === active.id) return;
+    await onSwitch?.();
+    setActiveProfile(id);
+    window.location.reload();
+  };
+
+  return (
+    <div className="flex items-center gap-2" title={active.baseUrl}>
+      <Server className="h-4 w-4 text-gray-500" />
+      <select
+        value={active.id}
+        onChange={handleChange}
+        className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+      >
+        {profiles.map(profile => (
+          <option key={profile.id} value={profile.id}>
+            {profile.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default BackendProfileSwitcher;
@@ -0,0 +1,109 @@
+import React from 'react';
+import { Ban, CheckCircle, Clock, Loader2, RefreshCw, XCircle } from 'lucide-react';
+
+export type ImportJobStatus = 'queued' | 'importing' | 'imported' | 'failed' | 'cancelled';
+
+export interface ImportJob {
+  id: string;
+  name: string;
+  status: ImportJobStatus;
+  error?: string;
+  // The Postman key the batch started with, empty for the account default;
+  // retries reuse it even if another key is selected by then
+  apiKeyId: string;
+  // Set when a cancel cut the save off mid-request, which the server may still
+  // have finished; lastSeenBefore is the collection's last_seen before it was sent
+  interrupted?: boolean;
+  lastSeenBefore?: string | null;
+}
+
+interface BulkImportProgressProps {
+  jobs: ImportJob[];
+  isRunning: boolean;
+  onCancel: () => void;
+  onRetry: (jobs: ImportJob[]) => void;
+  onDismiss: () => void;
+}
+
+const STATUS_ICONS: Record<ImportJobStatus, React.ReactNode> = {
+  queued: <Clock className="h-4 w-4 text-gray-400" />,
+  importing: <Loader2 className="h-4 w-4 text-blue-500 animate-spin" />,
+  imported: <CheckCircle className="h-4 w-4 text-green-500" />,
+  failed: <XCircle className="h-4 w-4 text-red-500" />,
+  cancelled: <Ban className="h-4 w-4 text-gray-400" />,
+};
+
+const STATUS_LABELS: Record<ImportJobStatus, string> = {
+  queued: 'Waiting',
+  importing: 'Importing',
+  imported: 'Imported',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+export const isRetryable = (job: ImportJob) => job.status === 'failed' || job.status === 'cancelled';
+
+const BulkImportProgress: React.FC<BulkImportProgressProps> = ({ jobs, isRunning, onCancel, onRetry, onDismiss }) => {
+  const finished = jobs.filter(job => job.status !== 'queued' && job.status !== 'importing').length;
+  const retryable = jobs.filter(isRetryable);
+  const percent = jobs.length ? Math.round((finished / jobs.length) * 100) : 0;
+
+  return (
+    <div className="mb-6 border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-medium text-gray-900">
+          {isRunning ? 'Importing' : 'Import finished'}: {finished} of {jobs.length}
+        </p>
+        <div className="flex items-center gap-3">
+          {isRunning ? (
+            <button onClick={onCancel} className="text-sm font-medium text-red-600 hover:text-red-800">
+              Cancel
+            </button>
+          ) : (
+            <>
+              {retryable.length > 0 && (
+                <button onClick={() => onRetry(retryable)} className="text-sm font-medium text-blue-600 hover:text-blue-800">
+                  Retry {retryable.length} failed
+                </button>
+              )}
+              <button onClick={onDismiss} className="text-sm font-medium text-gray-500 hover:text-gray-700">
+                Dismiss
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="h-2 bg-gray-100 rounded-full overflow-hidden mb-3">
+        <div className="h-full bg-blue-500 transition-all duration-300" style={{ width: `${percent}%` }} />
+      </div>
+
+      <ul className="divide-y divide-gray-100 max-h-64 overflow-y-auto">
+        {jobs.map(job => (
+          <li key={job.id} className="flex items-start justify-between gap-3 py-2">
+            <div className="flex items-start gap-2 min-w-0">
+              <span className="mt-0.5">{STATUS_ICONS[job.status]}</span>
+              <div className="min-w-0">
+                <p className="text-sm text-gray-900 truncate">{job.name}</p>
+                <p className={`text-xs ${job.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                  {job.error ?? STATUS_LABELS[job.status]}
+                </p>
+              </div>
+            </div>
+            {isRetryable(job) && !isRunning && (
+              <button
+                onClick={() => onRetry([job])}
+                className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-800 shrink-0"
+              >
+                <RefreshCw className="h-3 w-3" />
+                Retry
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default BulkImportProgress;
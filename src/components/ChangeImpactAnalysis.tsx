@@ -1,79 +1,6 @@
 import React, { useState } from 'react';
 import { AlertCircle, Lock, Package, ChevronDown, ChevronUp, Plus, Minus, Edit, Circle, Code, Shield, Clock, GitBranch, Database, Zap } from 'lucide-react';
-
-interface ImpactItem {
-  change: { human_path: string };
-  impact: string;
-  suggestions?: string[];
-}
-
-export interface ImpactAnalysisResponse {
-  collection_id: string;
-  snapshot_id: number;
-  breaking_changes: ChangeItem[];
-  security_changes: ChangeItem[];
-  data_changes: ChangeItem[];
-  cosmetic_changes: CosmeticChangeItem[];
-  summary: Summary;
-}
-
-export interface ChangeItem {
-  change: Change;
-  impact: string;
-  severity: Severity;
-  suggestions?: string[];
-}
-
-export interface CosmeticChangeItem {
-  change: Change;
-  impact: string;
-  severity: 'low';
-}
-
-export interface Change {
-  id: number;
-  collection_id: string;
-  old_snapshot_id: number;
-  new_snapshot_id: number;
-  change_type: ChangeType;
-  path: string;
-  modification: string;
-  created_at: string;
-  human_path: string;
-  path_segments: string[];
-  endpoint_name?: string;
-  resource_type: ResourceType;
-}
-
-export interface Summary {
-  total_breaking: number;
-  total_security: number;
-  total_data: number;
-  total_cosmetic: number;
-  risk_score: number;
-  recommendation: string;
-}
-
-export enum ChangeType {
-  Added = 'added',
-  Deleted = 'deleted',
-  Modified = 'modified'
-}
-
-export enum Severity {
-  Breaking = 'breaking',
-  High = 'high',
-  Medium = 'medium',
-  Low = 'low',
-  Data = 'data'
-}
-
-export enum ResourceType {
-  Request = 'request',
-  Response = 'response',
-  Endpoint = 'endpoint',
-  Collection = 'collection'
-}
+import type { ChangeType, ImpactAnalysis, ImpactItem, ImpactSummary, Severity } from '../models';
 
 const ImpactCard: React.FC<{
   title: string;
@@ -84,7 +11,7 @@ const ImpactCard: React.FC<{
   items: ImpactItem[];
   borderColor: string; 
 }> = ({ title, count, icon, bgColor, textColor, items, borderColor }) => {
-  const [expandedItems, setExpandedItems] = useState({});
+  const [expandedItems, setExpandedItems] = useState<Record<number, boolean>>({});
 
   const toggleItemExpansion = (index: number) => {
     setExpandedItems(prev => ({
@@ -93,13 +20,15 @@ const ImpactCard: React.FC<{
     }));
   };
 
-  const getSeverityColor = (severity: any) => {
+  const getSeverityColor = (severity: Severity) => {
     switch (severity) {
       case 'breaking':
         return 'text-red-600 bg-red-50';
+      case 'security':
       case 'high':
         return 'text-orange-600 bg-orange-50';
       case 'medium':
+      case 'data':
         return 'text-yellow-600 bg-yellow-50';
       case 'low':
         return 'text-green-600 bg-green-50';
@@ -108,7 +37,7 @@ const ImpactCard: React.FC<{
     }
   };
 
-  const getChangeTypeIcon = (changeType: any) => {
+  const getChangeTypeIcon = (changeType: ChangeType) => {
     switch (changeType) {
       case 'added':
         return <Plus className="h-4 w-4 text-green-500" />;
@@ -182,11 +111,9 @@ const ImpactCard: React.FC<{
                       <div>
                         <h5 className="text-sm font-semibold text-gray-700 mb-1">Modification:</h5>
                         <pre className="text-xs text-gray-600 bg-white p-2 rounded border border-gray-200 overflow-x-auto">
-                          {typeof item.change.modification === 'string' 
-                            ? item.change.modification.startsWith('<<hash:') 
-                              ? 'Large content (hash provided)'
-                              : JSON.stringify(JSON.parse(item.change.modification), null, 2)
-                            : JSON.stringify(item.change.modification, null, 2)}
+                          {item.change.modification.startsWith('<<hash:')
+                            ? 'Large content (hash provided)'
+                            : JSON.stringify(JSON.parse(item.change.modification), null, 2)}
                         </pre>
                       </div>
                     )}
@@ -223,7 +150,7 @@ const ImpactCard: React.FC<{
 };
 
 // Summary Dashboard Component
-const SummaryDashboard = ({ summary }) => {
+const SummaryDashboard: React.FC<{ summary: ImpactSummary }> = ({ summary }) => {
   const getRiskColor = (score: number) => {
     if (score < 30) return 'text-green-600 bg-green-100';
     if (score < 60) return 'text-yellow-600 bg-yellow-100';
@@ -271,7 +198,7 @@ const SummaryDashboard = ({ summary }) => {
   );
 };
 
-const ImpactAnalysisView = ({ impactData }) => {
+const ImpactAnalysisView: React.FC<{ impactData: ImpactAnalysis }> = ({ impactData }) => {
   const [currentIndex, setCurrentIndex] = useState(0);
   
   const cards = [
@@ -1,5 +1,10 @@
 import React, { useEffect, useState } from 'react';
-import { changesService } from '../services/api';
+import { changesService, isAbortError, queryKeys } from '../services/api';
+import { invalidateQueries } from '../services/queryCache';
+import { describeError } from '../services/apiError';
+import { useLatestRequest } from '../hooks/useLatestRequest';
+import { useQuery } from '../hooks/useQuery';
+import { useSnapshotLabels } from '../hooks/useSnapshotLabels';
 import { 
   Zap, 
   Plus, 
@@ -20,92 +25,35 @@ import {
 } from 'lucide-react';
 import ImpactAnalysisView from './ChangeImpactAnalysis';
 import DisplaySnapshotDiff from './DisplaySnapshotDiff';
-
-interface SnapshotDiffParams {
-  pageSize?: number;
-  page?: number;
-  filterType?: string;
-  sortOrder?: string;
-}
-
-interface Snapshot extends Array<number> {}
-
-interface Change {
-  change_type: 'added' | 'modified' | 'deleted';
-  path: string;
-  human_path: string;
-  created_at: string;
-  modification: string;
-  endpoint_name: string;
-}
-
-interface Summary {
-  changes_by_type: {
-    added: number;
-    modified: number;
-    deleted: number;
-  };
-  affected_endpoints: any[];
-}
-
-interface TreeNode {
-  name: string;
-  type: string;
-  change_count?: number;
-  change_type?: string;
-  children?: TreeNode[];
-}
-
-interface ImpactItem {
-  change: { human_path: string };
-  impact: string;
-  suggestions?: string[];
-}
-
-interface DiffDetail {
-  id: number;
-  collection_id: string;
-  old_snapshot_id: number;
-  new_snapshot_id: number;
-  change_type: 'added' | 'deleted' | 'modified';
-  path: string;
-  modification: string;
-  created_at: string;
-  human_path: string;
-  path_segments: string[];
-  endpoint_name?: string;
-  resource_type: 'request' | 'response' | 'endpoint' | 'collection';
-  old_value: any;
-  new_value: any;
-}
-
-interface DiffResponse {
-  old_snapshot_id: number;
-  new_snapshot_id: number;
-  collection_id: string;
-  changes: DiffDetail[];
-  summary: {
-    total_changes: number;
-    changes_by_type: {
-      added: number;
-      deleted: number;
-      modified: number;
-    };
-    affected_endpoints: string[];
-  };
-}
+import type { ImpactAnalysis, RecentChange, Summary, TreeNode } from '../models';
 
 export const ChangesDashboard: React.FC<{ collectionId: string }> = ({ collectionId }) => {
-  const [snapshot, setSnapshot] = useState<Snapshot | null>(null);
+  const [snapshot, setSnapshot] = useState<number[] | null>(null);
   const [selectedSnapshotId, setSelectedSnapshotId] = useState<number | null>(null);
   const [currentView, setCurrentView] = useState<'summary' |'history'| 'timeline' | 'hierarchy' | 'impact' | 'compare'>('summary');
+  const describeSnapshot = useSnapshotLabels(collectionId);
 
-  const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
   // Summary data
-  const [summary, setSummary] = useState<Summary | null>(null);
-  const [changes, setChanges] = useState<Change[]>([]);
+  const summaryQuery = useQuery<Summary>(
+    queryKeys.summary(collectionId),
+    signal => changesService.getSummary(collectionId, { signal }),
+    { enabled: !!collectionId }
+  );
+  const changesQuery = useQuery<RecentChange[]>(
+    queryKeys.changes(collectionId),
+    signal => changesService.getChanges(collectionId, { signal }),
+    { enabled: !!collectionId }
+  );
+  const summary = summaryQuery.data ?? null;
+  const changes = changesQuery.data ?? [];
+  const loading = changesQuery.isLoading;
+  const queryError = summaryQuery.error
+    ? describeError(summaryQuery.error, 'Failed to load summary', 'Collection')
+    : changesQuery.error
+      ? describeError(changesQuery.error, 'Failed to load changes', 'Collection')
+      : null;
   
   // Filters
   const [showFilters, setShowFilters] = useState(false);
@@ -114,19 +62,26 @@ export const ChangesDashboard: React.FC<{ collectionId: string }> = ({ collectio
   const [pathFilter, setPathFilter] = useState('');
   
   const [hierarchy, setHierarchy] = useState<TreeNode | null>(null);
-  const [impactData, setImpactData] = useState<any>(null);
+  const [impactData, setImpactData] = useState<ImpactAnalysis | null>(null);
   const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
   const [fetchingSnapshot, setFetchingSnapshot] = useState(false);
 
+  // One stream per data set so a newer request only supersedes its own kind
+  const nextSnapshotsRequest = useLatestRequest();
+  const nextHierarchyRequest = useLatestRequest();
+  const nextImpactRequest = useLatestRequest();
+
   useEffect(() => {
     if (collectionId) {
-      loadSummaryData();
-      loadRecentChanges();
       getCollectionSnapshots();
     }
   }, [collectionId]);
 
   useEffect(() => {
+    loadViewData();
+  }, [currentView, selectedSnapshotId]);
+
+  const loadViewData = () => {
     switch (currentView) {
       case 'timeline':
         loadTimelineData();
@@ -138,16 +93,24 @@ export const ChangesDashboard: React.FC<{ collectionId: string }> = ({ collectio
         loadImpactAnalysis();
         break;
     }
-  }, [currentView, selectedSnapshotId]);
+  };
+
+  // Drops everything cached for this collection; the summary and changes
+  // queries refetch on their own once invalidated
+  const refreshAll = () => {
+    invalidateQueries(queryKeys.collection(collectionId));
+    getCollectionSnapshots();
+    loadViewData();
+  };
 
   const getCollectionSnapshots = async () => {
+    const signal = nextSnapshotsRequest();
     setFetchingSnapshot(true);
     setError(null);
     try {
-      const response = await changesService.getCollectionSnapshots(collectionId);
-      const snapshotData = response?.data || response;
+      const snapshotData = await changesService.getCollectionSnapshots(collectionId, { signal });
 
-      if (Array.isArray(snapshotData) && snapshotData.length > 0) {
+      if (snapshotData.length > 0) {
         setSnapshot(snapshotData);
         setSelectedSnapshotId(snapshotData[0]);
       } else {
@@ -156,39 +119,12 @@ export const ChangesDashboard: React.FC<{ collectionId: string }> = ({ collectio
         setError('No snapshots available for this collection');
       }
     } catch (err) {
-      setError('Failed to load collection snapshots');
+      if (isAbortError(err)) return;
+      setError(describeError(err, 'Failed to load collection snapshots', 'Collection'));
       setSnapshot([]);
       setSelectedSnapshotId(null);
     } finally {
-      setFetchingSnapshot(false);
-    }
-  };
-
-  const loadSummaryData = async () => {
-    try {
-      const data = await changesService.getSummary(collectionId);
-      setSummary(data || null);
-    } catch (err) {
-      setError('Failed to load summary');
-      setSummary(null);
-    }
-  };
-
-  const loadRecentChanges = async () => {
-    setLoading(true);
-    try {
-      const params = new URLSearchParams();
-      if (typeFilter) params.append('type', typeFilter);
-      if (resourceFilter) params.append('resource', resourceFilter);
-      if (pathFilter) params.append('path', pathFilter);
-      
-      const data = await changesService.getChanges(collectionId);
-      setChanges(Array.isArray(data?.changes) ? data.changes : []);
-    } catch (err) {
-      setError('Failed to load changes');
-      setChanges([]);
-    } finally {
-      setLoading(false);
+      if (!signal.aborted) setFetchingSnapshot(false);
     }
   };
 
@@ -202,11 +138,13 @@ export const ChangesDashboard: React.FC<{ collectionId: string }> = ({ collectio
       return;
     }
 
+    const signal = nextHierarchyRequest();
     try {
-      const data = await changesService.getHierarchy(collectionId, selectedSnapshotId);
-      setHierarchy(data || null);
+      const data = await changesService.getHierarchy(collectionId, selectedSnapshotId, { signal });
+      setHierarchy(data);
     } catch (err) {
-      setError('Failed to load hierarchy');
+      if (isAbortError(err)) return;
+      setError(describeError(err, 'Failed to load hierarchy', 'Snapshot'));
       setHierarchy(null);
     }
   };
@@ -216,11 +154,13 @@ export const ChangesDashboard: React.FC<{ collectionId: string }> = ({ collectio
       setError('No snapshot selected for impact analysis');
       return;
     }
+    const signal = nextImpactRequest();
     try {
-      const data = await changesService.getImpactAnalysis(collectionId, selectedSnapshotId);
-      setImpactData(data || null);
+      const data = await changesService.getImpactAnalysis(collectionId, selectedSnapshotId, { signal });
+      setImpactData(data);
     } catch (err) {
-      setError('Failed to load impact analysis');
+      if (isAbortError(err)) return;
+      setError(describeError(err, 'Failed to load impact analysis', 'Snapshot'));
       setImpactData(null);
     }
   };
@@ -341,7 +281,7 @@ export const ChangesDashboard: React.FC<{ collectionId: string }> = ({ collectio
                   <option value="">Select Snapshot</option>
                   {snapshot.map((id, index) => (
                     <option key={id} value={id}>
-                      Snapshot {id} {index === 0 ? '(Latest)' : ''}
+                      {describeSnapshot(id, index === 0)}
                     </option>
                   ))}
                 </select>
@@ -353,11 +293,7 @@ export const ChangesDashboard: React.FC<{ collectionId: string }> = ({ collectio
               </button>
               
               <button 
-                onClick={() => { 
-                  loadSummaryData(); 
-                  loadRecentChanges(); 
-                  getCollectionSnapshots();
-                }}
+                onClick={refreshAll}
                 className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-black-500 rounded-md hover:bg-black-600"
               >
                 <RefreshCw className="h-4 w-4" />
@@ -390,13 +326,13 @@ export const ChangesDashboard: React.FC<{ collectionId: string }> = ({ collectio
       </nav>
 
       {/* Error Display */}
-      {error && (
+      {(error || queryError) && (
         <div className="max-w-7xl mx-auto px-4 py-4">
           <div className="bg-red-50 border border-red-200 rounded-md p-4">
             <div className="flex">
               <AlertCircle className="h-5 w-5 text-red-400" />
               <div className="ml-3">
-                <p className="text-sm text-red-800">{error}</p>
+                <p className="text-sm text-red-800">{error || queryError}</p>
               </div>
             </div>
           </div>
@@ -1,15 +1,15 @@
 import React, { useEffect, useState } from 'react';
-import { collectionService, snapshotService } from '../services/api';
-import { Loader2, XCircle, RefreshCw } from 'lucide-react';
-
-interface Snapshot {
-  id: number;
-  collection_id: string;
-  snapshot_time: string;
-  collection_name: string;
-  item_count: number;
-  size_kb: number;
-}
+import { collectionService, isAbortError, queryKeys, retentionService, snapshotService } from '../services/api';
+import { describeError } from '../services/apiError';
+import { usePermissions } from '../contexts/AuthContext';
+import { useQuery } from '../hooks/useQuery';
+import { useLatestRequest } from '../hooks/useLatestRequest';
+import ScheduleRunHistory from './ScheduleRunHistory';
+import SnapshotAnnotationModal from './SnapshotAnnotationModal';
+import DeleteSnapshotsModal from './DeleteSnapshotsModal';
+import RetentionPolicyModal from './RetentionPolicyModal';
+import { Loader2, XCircle, RefreshCw, Pencil, Trash2, Archive, HardDrive, CheckCircle } from 'lucide-react';
+import { describeRetention, formatFileSize, type Snapshot, type SnapshotDeletion } from '../models';
 
 interface Pagination {
   page: number;
@@ -35,23 +35,59 @@ const CollectionSnapshotsPage: React.FC<CollectionSnapshotsPageProps> = ({ colle
   const [error, setError] = useState<string | null>(null);
   const [fetchingSnapshot, setFetchingSnapshot] = useState(false);
   const [collectionInfo, setCollectionInfo] = useState<CollectionInfo | null>(null);
+  const [tagFilter, setTagFilter] = useState('');
+  const [editingSnapshot, setEditingSnapshot] = useState<Snapshot | null>(null);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [deleting, setDeleting] = useState<Snapshot[] | null>(null);
+  const [showRetention, setShowRetention] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
   const [pagination, setPagination] = useState<Pagination>({
     page: 1,
     pageSize: DEFAULT_PAGE_SIZE,
     totalPages: 1,
     totalItems: 0,
   });
+  const { can } = usePermissions();
+  const canCreateSnapshot = can('snapshots:create');
+  const canDelete = can('snapshots:delete');
+  const fetchDisabled = fetchingSnapshot || !collectionInfo || !canCreateSnapshot;
+  const { data: usage } = useQuery(
+    queryKeys.snapshotUsage(collectionId),
+    signal => snapshotService.getUsage(collectionId, { signal })
+  );
+  const { data: retention } = useQuery(
+    queryKeys.retention(collectionId),
+    signal => retentionService.getPolicy(collectionId, { signal })
+  );
+  // Every tag in use across the collection, not just on the current page. The
+  // active filter stays listed even if its last snapshot was just untagged.
+  const { data: annotations = [] } = useQuery(
+    queryKeys.snapshotAnnotations(collectionId),
+    signal => snapshotService.getAnnotations(collectionId, { signal })
+  );
+  const allTags = [...new Set([...annotations.flatMap(a => a.tags), tagFilter].filter(Boolean))].sort();
 
-  const fetchSnapshots = async (page = 1, pageSize = DEFAULT_PAGE_SIZE) => {
+  // Only the latest page/tag request may update the table
+  const nextSnapshotsRequest = useLatestRequest();
+
+  const fetchSnapshots = async (page = 1, pageSize = DEFAULT_PAGE_SIZE, tag = tagFilter): Promise<void> => {
+    const signal = nextSnapshotsRequest();
     setLoading(true);
     setError(null);
     try {
-      const data = await collectionService.getCollectionSnapshots(collectionId, page, pageSize);
+      const data = await collectionService.getCollectionSnapshots(collectionId, page, pageSize, tag || undefined, { signal });
+      // Deleting can leave us past the last page; the follow-up request supersedes this one.
+      // A filter with no matches reports zero pages, and page 1 is as far back as it goes.
+      const lastPage = Math.max(1, data.totalPages);
+      if (data.data.length === 0 && page > lastPage) {
+        return fetchSnapshots(lastPage, pageSize, tag);
+      }
       
       // Set snapshots data
-      setSnapshots(data.data || []);
+      setSnapshots(data.data);
+      setSelectedIds([]);
       
-      if (data.data && data.data.length > 0) {
+      if (data.data.length > 0) {
         setCollectionInfo({
           id: data.data[0].collection_id,
           name: data.data[0].collection_name
@@ -60,15 +96,16 @@ const CollectionSnapshotsPage: React.FC<CollectionSnapshotsPageProps> = ({ colle
       
       // Set pagination
       setPagination({
-        page: data.page || 1,
-        pageSize: data.pageSize || DEFAULT_PAGE_SIZE,
-        totalPages: data.totalPages || 1,
-        totalItems: data.totalItems || (data.data ? data.data.length : 0),
+        page: data.page,
+        pageSize: data.pageSize,
+        totalPages: data.totalPages,
+        totalItems: data.totalItems || data.data.length,
       });
-    } catch (err: any) {
-      setError(err.message || 'Failed to fetch snapshots');
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError(describeError(err, 'Failed to fetch snapshots', 'Collection'));
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
   };
 
@@ -84,6 +121,37 @@ const CollectionSnapshotsPage: React.FC<CollectionSnapshotsPageProps> = ({ colle
     fetchSnapshots(newPage, pagination.pageSize);
   };
 
+  const handleTagFilterChange = (tag: string) => {
+    setTagFilter(tag);
+    fetchSnapshots(1, pagination.pageSize, tag);
+  };
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds(ids => (ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id]));
+  };
+
+  const allSelected = snapshots.length > 0 && selectedIds.length === snapshots.length;
+
+  const handleDeleted = ({ snapshot_ids, freed_kb }: SnapshotDeletion) => {
+    setDeleting(null);
+    setNotice(`Deleted ${snapshot_ids.length} snapshot${snapshot_ids.length === 1 ? '' : 's'}, freeing ${formatFileSize(freed_kb)}`);
+    fetchSnapshots(pagination.page, pagination.pageSize);
+  };
+
+  const handleRetentionSaved = (deletion: SnapshotDeletion) => {
+    setShowRetention(false);
+    if (deletion.snapshot_ids.length > 0) {
+      handleDeleted(deletion);
+    } else {
+      setNotice('Retention policy saved');
+    }
+  };
+
+  const handleAnnotationSaved = () => {
+    setEditingSnapshot(null);
+    fetchSnapshots(pagination.page, pagination.pageSize);
+  };
+
   const handleFetchSnapshot = async () => {
     if (!collectionInfo) {
       setError('Collection information not available');
@@ -98,23 +166,13 @@ const CollectionSnapshotsPage: React.FC<CollectionSnapshotsPageProps> = ({ colle
       
       await fetchSnapshots(pagination.page, pagination.pageSize);
       
-    } catch (err: any) {
-      setError(err.message || 'Failed to create snapshot');
+    } catch (err) {
+      setError(describeError(err, 'Failed to create snapshot', 'Collection'));
     } finally {
       setFetchingSnapshot(false);
     }
   };
 
-  const formatFileSize = (sizeKb: number): string => {
-    if (sizeKb < 1024) {
-      return `${sizeKb} KB`;
-    } else if (sizeKb < 1024 * 1024) {
-      return `${(sizeKb / 1024).toFixed(1)} MB`;
-    } else {
-      return `${(sizeKb / (1024 * 1024)).toFixed(1)} GB`;
-    }
-  };
-
   const formatDate = (dateString: string): string => {
     try {
       return new Date(dateString).toLocaleString('en-US', {
@@ -146,9 +204,10 @@ const CollectionSnapshotsPage: React.FC<CollectionSnapshotsPageProps> = ({ colle
           </div>
           <button 
             onClick={handleFetchSnapshot}
-            disabled={fetchingSnapshot || !collectionInfo}
+            disabled={fetchDisabled}
+            title={canCreateSnapshot ? undefined : 'Viewers cannot create snapshots'}
             className={`flex items-center gap-2 px-4 py-2 rounded-lg shadow-md transition ${
-              fetchingSnapshot || !collectionInfo
+              fetchDisabled
                 ? 'bg-gray-400 cursor-not-allowed'
                 : 'bg-blue-600 hover:bg-blue-700'
             } text-white`}
@@ -167,6 +226,75 @@ const CollectionSnapshotsPage: React.FC<CollectionSnapshotsPageProps> = ({ colle
           </button>
         </div>
 
+        {/* Storage */}
+        {usage && (
+          <div className="flex flex-wrap justify-between items-center gap-4 bg-white rounded-xl shadow-md border border-gray-200 px-6 py-4 mb-6">
+            <div className="flex items-center gap-3">
+              <HardDrive className="w-5 h-5 text-gray-500" />
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {formatFileSize(usage.total_size_kb)} across {usage.snapshot_count} snapshot{usage.snapshot_count === 1 ? '' : 's'}
+                </p>
+                <p className="text-xs text-gray-500">{describeRetention(retention ?? null)}</p>
+              </div>
+            </div>
+            {canDelete && (
+              <button
+                onClick={() => setShowRetention(true)}
+                disabled={!collectionInfo}
+                className="inline-flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 border border-gray-300 rounded-md transition-colors disabled:opacity-50"
+              >
+                <Archive className="w-4 h-4" />
+                Retention
+              </button>
+            )}
+          </div>
+        )}
+
+        {notice && (
+          <div className="flex items-center justify-between bg-green-50 border border-green-200 rounded-lg p-4 mb-6 text-green-700">
+            <span className="flex items-center gap-2">
+              <CheckCircle className="w-5 h-5" />
+              {notice}
+            </span>
+            <button onClick={() => setNotice(null)} className="text-sm font-medium text-green-800 hover:underline">
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {(allTags.length > 0 || selectedIds.length > 0) && (
+          <div className="flex justify-between items-center gap-2 mb-4">
+            <div className="flex items-center gap-2">
+              {allTags.length > 0 && (
+                <>
+                  <label htmlFor="snapshot-tag-filter" className="text-sm text-gray-600">Tag</label>
+                  <select
+                    id="snapshot-tag-filter"
+                    value={tagFilter}
+                    onChange={(e) => handleTagFilterChange(e.target.value)}
+                    className="px-3 py-1.5 border border-gray-300 rounded-md text-sm bg-white"
+                  >
+                    <option value="">All snapshots</option>
+                    {allTags.map(tag => (
+                      <option key={tag} value={tag}>{tag}</option>
+                    ))}
+                  </select>
+                </>
+              )}
+            </div>
+            {selectedIds.length > 0 && (
+              <button
+                onClick={() => setDeleting(snapshots.filter(s => selectedIds.includes(s.id)))}
+                className="inline-flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-red-600 bg-white hover:bg-red-50 border border-red-300 rounded-md transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete {selectedIds.length} selected
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Loading State */}
         {loading && (
           <div className="flex justify-center items-center py-20">
@@ -186,16 +314,23 @@ const CollectionSnapshotsPage: React.FC<CollectionSnapshotsPageProps> = ({ colle
         )}
 
         {/* Empty State */}
-        {!loading && snapshots.length === 0 && !error && (
+        {!loading && snapshots.length === 0 && !error && tagFilter && (
+          <p className="text-center py-20 text-gray-500">
+            No snapshots are tagged <span className="font-medium">{tagFilter}</span>.
+          </p>
+        )}
+
+        {!loading && snapshots.length === 0 && !error && !tagFilter && (
           <div className="text-center py-20">
             <div className="bg-white rounded-xl shadow-md border border-gray-200 p-12">
               <h3 className="text-xl font-bold text-gray-700 mb-2">No Snapshots Found</h3>
               <p className="text-gray-500 mb-4">There are currently no snapshots for this collection.</p>
               <button
                 onClick={handleFetchSnapshot}
-                disabled={fetchingSnapshot || !collectionInfo}
+                disabled={fetchDisabled}
+                title={canCreateSnapshot ? undefined : 'Viewers cannot create snapshots'}
                 className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg transition ${
-                  fetchingSnapshot || !collectionInfo
+                  fetchDisabled
                     ? 'bg-gray-400 cursor-not-allowed'
                     : 'bg-blue-600 hover:bg-blue-700'
                 } text-white`}
@@ -223,7 +358,19 @@ const CollectionSnapshotsPage: React.FC<CollectionSnapshotsPageProps> = ({ colle
               <table className="min-w-full text-sm text-left">
                 <thead className="bg-gray-100 text-gray-700 uppercase text-xs">
                   <tr>
+                    {canDelete && (
+                      <th className="pl-6 py-4">
+                        <input
+                          type="checkbox"
+                          checked={allSelected}
+                          onChange={() => setSelectedIds(allSelected ? [] : snapshots.map(s => s.id))}
+                          aria-label="Select all snapshots on this page"
+                          className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                        />
+                      </th>
+                    )}
                     <th className="px-6 py-4 font-semibold">ID</th>
+                    <th className="px-6 py-4 font-semibold">Label</th>
                     <th className="px-6 py-4 font-semibold">Snapshot Time</th>
                     <th className="px-6 py-4 font-semibold">Collection Name</th>
                     <th className="px-6 py-4 font-semibold text-right">Items</th>
@@ -234,9 +381,46 @@ const CollectionSnapshotsPage: React.FC<CollectionSnapshotsPageProps> = ({ colle
                 <tbody className="divide-y divide-gray-200">
                   {snapshots.map((snapshot) => (
                     <tr key={snapshot.id} className="hover:bg-gray-50 transition-colors">
+                      {canDelete && (
+                        <td className="pl-6 py-4">
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.includes(snapshot.id)}
+                            onChange={() => toggleSelected(snapshot.id)}
+                            aria-label={`Select snapshot ${snapshot.id}`}
+                            className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                          />
+                        </td>
+                      )}
                       <td className="px-6 py-4 font-medium text-gray-900">
                         #{snapshot.id}
                       </td>
+                      <td className="px-6 py-4 text-gray-700">
+                        {snapshot.label ? (
+                          <div className="font-medium text-gray-900">{snapshot.label}</div>
+                        ) : (
+                          !snapshot.note && snapshot.tags.length === 0 && <span className="text-gray-400">—</span>
+                        )}
+                        {snapshot.note && (
+                          <div className="max-w-xs truncate text-xs text-gray-500 mt-1" title={snapshot.note}>
+                            {snapshot.note}
+                          </div>
+                        )}
+                        {snapshot.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {snapshot.tags.map(tag => (
+                              <button
+                                key={tag}
+                                onClick={() => handleTagFilterChange(tag)}
+                                className="px-2 py-0.5 text-xs rounded-full bg-indigo-50 text-indigo-700 hover:bg-indigo-100"
+                                title={`Show snapshots tagged ${tag}`}
+                              >
+                                {tag}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </td>
                       <td className="px-6 py-4 text-gray-700">
                         {formatDate(snapshot.snapshot_time)}
                       </td>
@@ -254,7 +438,17 @@ const CollectionSnapshotsPage: React.FC<CollectionSnapshotsPageProps> = ({ colle
                       <td className="px-6 py-4 text-right text-gray-700">
                         {formatFileSize(snapshot.size_kb)}
                       </td>
-                      <td className="px-6 py-4 text-center">
+                      <td className="px-6 py-4 text-center whitespace-nowrap">
+                        {canCreateSnapshot && (
+                          <button
+                            onClick={() => setEditingSnapshot(snapshot)}
+                            className="inline-flex items-center gap-1 px-3 py-1 mr-2 text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 border border-gray-300 rounded-md transition-colors"
+                            title="Edit label, note and tags"
+                          >
+                            <Pencil className="w-3 h-3" />
+                            Edit
+                          </button>
+                        )}
                         <a
                           href={`/app/snapshot/${snapshot.id}?collectionId=${snapshot.collection_id}&itemSize=${snapshot.item_count}`}
                           className="inline-flex items-center px-3 py-1 text-sm font-medium text-blue-600 bg-blue-50 hover:bg-blue-100 border border-blue-200 rounded-md transition-colors"
@@ -262,6 +456,15 @@ const CollectionSnapshotsPage: React.FC<CollectionSnapshotsPageProps> = ({ colle
                         >
                           View
                         </a>
+                        {canDelete && (
+                          <button
+                            onClick={() => setDeleting([snapshot])}
+                            className="inline-flex items-center ml-2 p-1.5 text-red-600 hover:bg-red-50 border border-transparent hover:border-red-200 rounded-md transition-colors"
+                            title="Delete snapshot"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
                       </td>
                     </tr>
                   ))}
@@ -309,6 +512,33 @@ const CollectionSnapshotsPage: React.FC<CollectionSnapshotsPageProps> = ({ colle
             </div>
           </>
         )}
+
+        <ScheduleRunHistory collectionId={collectionId} snapshots={snapshots} />
+
+        {deleting && (
+          <DeleteSnapshotsModal snapshots={deleting} onClose={() => setDeleting(null)} onDeleted={handleDeleted} />
+        )}
+
+        {showRetention && collectionInfo && (
+          <RetentionPolicyModal
+            collectionId={collectionId}
+            collectionName={collectionInfo.name}
+            onClose={() => setShowRetention(false)}
+            onSaved={handleRetentionSaved}
+            onRemoved={() => {
+              setShowRetention(false);
+              setNotice('Retention policy removed; all snapshots will be kept');
+            }}
+          />
+        )}
+
+        {editingSnapshot && (
+          <SnapshotAnnotationModal
+            snapshot={editingSnapshot}
+            onClose={() => setEditingSnapshot(null)}
+            onSaved={handleAnnotationSaved}
+          />
+        )}
       </div>
     </div>
   );
@@ -1,5 +1,8 @@
 import React, { useEffect, useState } from 'react';
-import { changesService } from '../services/api';
+import { changesService, isAbortError } from '../services/api';
+import { describeError } from '../services/apiError';
+import { useLatestRequest } from '../hooks/useLatestRequest';
+import { useSnapshotLabels } from '../hooks/useSnapshotLabels';
 import { 
   Zap, 
   Plus, 
@@ -19,86 +22,70 @@ import {
   Loader2
 } from 'lucide-react';
 
-//TODO move this to the snapshots view. so that when two snapshots are selected then the analysis is rendered
+import type { ChangeType, ImpactAnalysis, ImpactItem } from '../models';
 
-interface Snapshot extends Array<number> {}
+//TODO move this to the snapshots view. so that when two snapshots are selected then the analysis is rendered
 
-interface ChangeDetail {
-  id: number;
-  collection_id: string;
-  old_snapshot_id: number;
-  new_snapshot_id: number;
-  change_type: 'added' | 'deleted' | 'modified';
-  path: string;
-  modification: string;
-  created_at: string;
-  human_path: string;
-  path_segments: string[];
-  endpoint_name?: string;
-  resource_type: 'request' | 'response' | 'endpoint' | 'collection';
-}
+export const CompareSnapshots: React.FC<{ collectionId: string }> = ({ collectionId }) => {
+  const [compareData, setCompareData] = useState<ImpactAnalysis | null>(null);
+  const [snapshot, setSnapshot] = useState<number[]>([]);
+  const [compareSnapshot1, setCompareSnapshot1] = useState<number | null>(null);
+  const [compareSnapshot2, setCompareSnapshot2] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [compareLoading, setCompareLoading] = useState(false);
+  const [activeChangeTab, setActiveChangeTab] = useState<'breaking' | 'security' | 'data' | 'cosmetic'>('breaking');
+  const describeSnapshot = useSnapshotLabels(collectionId);
+  const nextCompareRequest = useLatestRequest();
 
-interface ChangeWithImpact {
-  change: ChangeDetail;
-  impact: string;
-  severity: 'breaking' | 'security' | 'data' | 'low';
-  suggestions?: string[];
-}
+  useEffect(() => {
+    const controller = new AbortController();
+    changesService.getCollectionSnapshots(collectionId, { signal: controller.signal })
+      .then(setSnapshot)
+      .catch((err) => {
+        if (!isAbortError(err)) setError(describeError(err, 'Failed to load collection snapshots', 'Collection'));
+      });
+    return () => controller.abort();
+  }, [collectionId]);
 
-interface CompareData {
-  collection_id: string;
-  snapshot_id: number;
-  breaking_changes: ChangeWithImpact[];
-  security_changes: ChangeWithImpact[];
-  data_changes: ChangeWithImpact[];
-  cosmetic_changes: ChangeWithImpact[];
-  summary: {
-    total_breaking: number;
-    total_security: number;
-    total_data: number;
-    total_cosmetic: number;
-    risk_score: number;
-    recommendation: string;
+  const getChangeTypeBadgeClass = (type: ChangeType) => {
+    switch (type) {
+      case 'added': return 'bg-green-100 text-green-800';
+      case 'modified': return 'bg-blue-100 text-blue-800';
+      case 'deleted': return 'bg-red-100 text-red-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
   };
-}
 
+  const loadCompareSnapshots = async () => {
+    if (!compareSnapshot1 || !compareSnapshot2) {
+      setError('Please select both snapshots to compare');
+      return;
+    }
 
-export const CompareSnapshots: React.FC<{ collectionId: string }> = ({ collectionId }) => {
-    const [compareData, setCompareData] = useState<CompareData | null>(null);
-const [compareSnapshot1, setCompareSnapshot1] = useState<number | null>(null);
-const [compareSnapshot2, setCompareSnapshot2] = useState<number | null>(null);
-const [error, setError] = useState<string | null>(null);
-const [compareLoading, setCompareLoading] = useState(false);
-const [activeChangeTab, setActiveChangeTab] = useState<'breaking' | 'security' | 'data' | 'cosmetic'>('breaking');
-
-
-const loadCompareSnapshots = async () => {
-  if (!compareSnapshot1 || !compareSnapshot2) {
-    setError('Please select both snapshots to compare');
-    return;
-  }
+    if (compareSnapshot1 === compareSnapshot2) {
+      setError('Please select different snapshots to compare');
+      return;
+    }
 
-  if (compareSnapshot1 === compareSnapshot2) {
-    setError('Please select different snapshots to compare');
-    return;
-  }
-
-  setCompareLoading(true);
-  try {
-    const data = await changesService.compareSnapshots(
-      collectionId, 
-      compareSnapshot1, 
-      compareSnapshot2
-    );
-    setCompareData(data);
-    setError(null);
-  } catch (err) {
-    setError('Failed to compare snapshots');
-    setCompareData(null);
-  } finally {
-    setCompareLoading(false);
-  }
-};
+    const signal = nextCompareRequest();
+    setCompareLoading(true);
+    try {
+      const data = await changesService.compareSnapshots(
+        collectionId, 
+        compareSnapshot1, 
+        compareSnapshot2,
+        { signal }
+      );
+      setCompareData(data);
+      setError(null);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError(describeError(err, 'Failed to compare snapshots', 'Snapshot'));
+      setCompareData(null);
+    } finally {
+      if (!signal.aborted) setCompareLoading(false);
+    }
+  };
 
       {/* Error Display */}
       {error && (
@@ -113,7 +100,7 @@ const loadCompareSnapshots = async () => {
           </div>
         </div>
       )}
-return (
+  return (
     <div className="space-y-6">
     {/* Snapshot Selector */}
     <div className="bg-white rounded-lg border border-gray-200 shadow-sm">
@@ -132,7 +119,7 @@ return (
               <option value="">Select Snapshot</option>
               {snapshot && snapshot.map((id, index) => (
                 <option key={id} value={id}>
-                  Snapshot {id} {index === 0 ? '(Latest)' : ''}
+                  {describeSnapshot(id, index === 0)}
                 </option>
               ))}
             </select>
@@ -147,7 +134,7 @@ return (
               <option value="">Select Snapshot</option>
               {snapshot && snapshot.map((id, index) => (
                 <option key={id} value={id}>
-                  Snapshot {id} {index === 0 ? '(Latest)' : ''}
+                  {describeSnapshot(id, index === 0)}
                 </option>
               ))}
             </select>
@@ -284,7 +271,7 @@ return (
           
           <div className="max-h-[600px] overflow-y-auto">
             {(() => {
-              const changes = compareData[`${activeChangeTab}_changes`] as ChangeWithImpact[];
+              const changes = compareData[`${activeChangeTab}_changes`] as ImpactItem[];
               
               if (changes.length === 0) {
                 return (
@@ -376,6 +363,6 @@ return (
       </>
     )}
   </div>
-)
+  )
 }
 export default CompareSnapshots;
\ No newline at end of file
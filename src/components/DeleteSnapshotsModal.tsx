@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Loader2, Trash2, X } from 'lucide-react';
+import { snapshotService } from '../services/api';
+import { describeError } from '../services/apiError';
+import { describeSnapshot, formatFileSize, type Snapshot, type SnapshotDeletion } from '../models';
+
+interface DeleteSnapshotsModalProps {
+  snapshots: Snapshot[];
+  onClose: () => void;
+  onDeleted: (deletion: SnapshotDeletion) => void;
+}
+
+const DeleteSnapshotsModal: React.FC<DeleteSnapshotsModalProps> = ({ snapshots, onClose, onDeleted }) => {
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState('');
+  const totalKb = snapshots.reduce((total, s) => total + s.size_kb, 0);
+  const labelled = snapshots.filter(s => s.label).length;
+
+  const handleDelete = async () => {
+    setError('');
+    setIsDeleting(true);
+    try {
+      const deletion = await snapshotService.deleteSnapshots(snapshots[0].collection_id, snapshots.map(s => s.id));
+      onDeleted(deletion);
+    } catch (err) {
+      setError(describeError(err, 'Failed to delete snapshots', 'Collection'));
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 px-4">
+      <div className="bg-white p-8 rounded-lg shadow-lg max-w-md w-full">
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center gap-2">
+            <Trash2 className="h-5 w-5 text-red-600" />
+            <h2 className="text-xl font-bold">
+              Delete {snapshots.length === 1 ? 'snapshot' : `${snapshots.length} snapshots`}?
+            </h2>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <span className="sr-only">Close</span>
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          This frees {formatFileSize(totalKb)} and can't be undone.
+        </p>
+
+        <ul className="mb-4 max-h-48 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md">
+          {snapshots.map(snapshot => (
+            <li key={snapshot.id} className="flex justify-between gap-3 px-3 py-2 text-sm">
+              <span className="truncate text-gray-900">{describeSnapshot(snapshot.id, snapshot.label)}</span>
+              <span className="shrink-0 text-gray-500">{new Date(snapshot.snapshot_time).toLocaleDateString()}</span>
+            </li>
+          ))}
+        </ul>
+
+        {labelled > 0 && (
+          <p className="mb-4 p-3 bg-yellow-50 border border-yellow-200 text-yellow-800 text-sm rounded">
+            {labelled === 1 ? '1 of these snapshots is' : `${labelled} of these snapshots are`} labelled.
+          </p>
+        )}
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded">{error}</div>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isDeleting}
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleDelete}
+            disabled={isDeleting}
+            className="flex-1 flex items-center justify-center bg-red-600 hover:bg-red-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-md shadow transition-colors duration-200"
+          >
+            {isDeleting && <Loader2 className="animate-spin h-4 w-4 mr-2" />}
+            <span>{isDeleting ? 'Deleting...' : 'Delete'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeleteSnapshotsModal;
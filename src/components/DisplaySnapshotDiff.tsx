@@ -19,53 +19,11 @@ import {
   CheckCircle2
 } from 'lucide-react';
 
-import { changesService } from '../services/api';
-
-interface DiffDetail {
-  id: number;
-  collection_id: string;
-  old_snapshot_id: number;
-  new_snapshot_id: number;
-  change_type: 'added' | 'deleted' | 'modified';
-  path: string;
-  modification: string;
-  created_at: string;
-  human_path: string;
-  path_segments: string[];
-  endpoint_name?: string;
-  resource_type: 'request' | 'response' | 'endpoint' | 'collection';
-  old_value: any;
-  new_value: any;
-}
-
-interface DiffResponse {
-  old_snapshot_id: number;
-  new_snapshot_id: number;
-  collection_id: string;
-  changes: DiffDetail[];
-  summary: {
-    total_changes: number;
-    changes_by_type: {
-      added: number;
-      deleted: number;
-      modified: number;
-    };
-    affected_endpoints: string[];
-  };
-  pagination?: {
-    page: number;
-    page_size: number;
-    total_items: number;
-    total_pages: number;
-    has_more: boolean;
-  };
-  groups?: Array<{
-    name: string;
-    count: number;
-    changes: DiffDetail[];
-    expanded: boolean;
-  }>;
-}
+import { changesService, isAbortError } from '../services/api';
+import { describeError } from '../services/apiError';
+import { useLatestRequest } from '../hooks/useLatestRequest';
+import { useSnapshotLabels } from '../hooks/useSnapshotLabels';
+import type { DiffDetail, DiffResponse } from '../models';
 
 interface DisplaySnapshotDiffProps {
   collectionId: string;
@@ -95,6 +53,7 @@ export const DisplaySnapshotDiff: React.FC<DisplaySnapshotDiffProps> = ({
   const [diffData, setDiffData] = useState<DiffResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const describeSnapshot = useSnapshotLabels(collectionId);
   
   // Filter states
   const [searchTerm, setSearchTerm] = useState('');
@@ -109,8 +68,10 @@ export const DisplaySnapshotDiff: React.FC<DisplaySnapshotDiffProps> = ({
   
 
   const debouncedSearchTerm = useDebounce(searchTerm, 300);
+  const nextDiffRequest = useLatestRequest();
 
 const fetchDiffData = useCallback(async () => {
+  const signal = nextDiffRequest();
   setLoading(true);
   setError(null);
   
@@ -120,28 +81,23 @@ const fetchDiffData = useCallback(async () => {
         return
     }
 
-    const params = new URLSearchParams({
+    const response = await changesService.getSnapshotDiff(collectionId, snapshotId, {
       search: debouncedSearchTerm,
-      filter_type: filterType,
-      group_by: groupBy,
-      page: page.toString(),
-      page_size: pageSize.toString(),
-    });
-    
-    const response = await changesService.getSnapshotDiff(collectionId, snapshotId, params);
-    
-    if (!response) {
-      throw new Error('Failed to fetch diff data');
-    }
+      filterType: filterType === 'all' ? undefined : filterType,
+      groupBy: groupBy === 'none' ? undefined : groupBy,
+      page,
+      pageSize,
+    }, { signal });
     
     setDiffData(response);
     
   } catch (err) {
-    setError(err instanceof Error ? err.message : 'An error occurred');
+    if (isAbortError(err)) return;
+    setError(describeError(err, 'Failed to load snapshot diff', 'Snapshot'));
   } finally {
-    setLoading(false);
+    if (!signal.aborted) setLoading(false);
   }
-}, [collectionId, snapshotId, debouncedSearchTerm, filterType, groupBy, page, pageSize]);
+}, [collectionId, snapshotId, debouncedSearchTerm, filterType, groupBy, page, pageSize, nextDiffRequest]);
 
 
 useEffect(() => {
@@ -284,7 +240,7 @@ useEffect(() => {
                   Snapshot Comparison
                 </h2>
                 <p className="text-sm text-gray-600">
-                  Snapshot {diffData.old_snapshot_id} → {diffData.new_snapshot_id} • {diffData.summary.total_changes} changes
+                  {describeSnapshot(diffData.old_snapshot_id)} → {describeSnapshot(diffData.new_snapshot_id)} • {diffData.summary.total_changes} changes
                 </p>
               </div>
             </div>
@@ -1,38 +1,15 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { snapshotService } from '../services/api';
+import { snapshotService, isAbortError } from '../services/api';
+import { describeError } from '../services/apiError';
 import { Loader2, XCircle, ChevronDown, ChevronRight, Folder, FileText, Hash } from 'lucide-react';
-
-interface EndPointDetail {
-  collection_id: string;
-  collection_name: string;
-  filters_applied: {
-    Fields: string;
-    Search: string;
-    ItemType: string;
-    Depth: string;
-  };
-  items: Array<{
-    id?: string;
-    name: string;
-    item?: Array<any>;
-    request?: any;
-    response?: any[];
-  }>;
-  pagination: {
-    page: number;
-    page_size: number;
-    total_items: number;
-    total_pages: number;
-  };
-  snapshot_id: string;
-}
+import type { SnapshotItemsPage } from '../models';
 
 const EndPointDetails: React.FC<{ snapshotId: string; collectionId: string; search: string }> = ({ 
   snapshotId, 
   collectionId, 
   search 
 }) => {
-  const [snapshot, setEndPoint] = useState<EndPointDetail | null>(null);
+  const [snapshot, setEndPoint] = useState<SnapshotItemsPage | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [collapsedSections, setCollapsedSections] = useState<Set<string>>(new Set());
@@ -41,19 +18,22 @@ const EndPointDetails: React.FC<{ snapshotId: string; collectionId: string; sear
   const endpointRefs = useRef<{ [key: string]: HTMLDivElement | null }>({});
 
   useEffect(() => {
+    const controller = new AbortController();
     const fetchEndPoint = async () => {
       setLoading(true);
       setError(null);
       try {
-        const response = await snapshotService.getEndPointDetails(snapshotId, collectionId, search);
-        setEndPoint(response.data || response);
-      } catch (err: any) {
-        setError(err.message || 'Failed to load endpoint details');
+        const response = await snapshotService.getEndPointDetails(snapshotId, collectionId, search, { signal: controller.signal });
+        setEndPoint(response);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        setError(describeError(err, 'Failed to load endpoint details', 'Endpoint'));
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) setLoading(false);
       }
     };
     if (snapshotId) fetchEndPoint();
+    return () => controller.abort();
   }, [snapshotId, collectionId, search]);
 
   const toggleCollapse = (sectionId: string) => {
@@ -0,0 +1,306 @@
+import React, { useRef, useState } from 'react';
+import { ChevronDown, ChevronRight, Loader2, Upload } from 'lucide-react';
+import { collectionService, queryKeys } from '../services/api';
+import { describeError } from '../services/apiError';
+import { useQuery } from '../hooks/useQuery';
+import ImportPreview from './ImportPreview';
+import {
+  ACCEPTED_EXTENSIONS,
+  collectionVariables,
+  convertFile,
+  countFolders,
+  countRequests,
+  ImportFormatError,
+  type ImportedFile,
+} from '../services/importers';
+import type { Collection } from '../models';
+
+interface FileImportProps {
+  canImport: boolean;
+  isLoading: boolean;
+  setIsLoading: (loading: boolean) => void;
+  addNotification: (type: 'success' | 'error' | 'info' | 'warning', message: string) => void;
+  onCollectionImported?: (collection: Collection) => void;
+}
+
+// Matches the backend's request body limit
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+interface ImportEntry {
+  key: string;
+  file: File;
+  imported?: ImportedFile;
+  error?: string;
+  problems?: string[];
+  uploaded?: boolean;
+  uploadError?: string;
+}
+
+type EntryStatus = 'checking' | 'ready' | 'duplicate' | 'failed' | 'imported';
+
+interface EntryReport {
+  status: EntryStatus;
+  reason?: string;
+}
+
+const STATUS_CLASSES: Record<EntryStatus, string> = {
+  checking: 'bg-gray-100 text-gray-700',
+  ready: 'bg-green-100 text-green-800',
+  duplicate: 'bg-yellow-100 text-yellow-800',
+  failed: 'bg-red-100 text-red-800',
+  imported: 'bg-blue-100 text-blue-800',
+};
+
+const STATUS_LABELS: Record<EntryStatus, string> = {
+  checking: 'Checking',
+  ready: 'Will import',
+  duplicate: 'Duplicate',
+  failed: 'Failed',
+  imported: 'Imported',
+};
+
+const sameCollection = (file: ImportedFile, id: string | undefined, name: string) =>
+  (!!id && file.collection.info._postman_id === id) || file.collection.info.name.toLowerCase() === name.toLowerCase();
+
+// Duplicates are worked out on every render so the report stays right as the
+// user's collections change and as files are added or removed
+const reportFor = (entries: ImportEntry[], index: number, existing: Collection[]): EntryReport => {
+  const entry = entries[index];
+  if (entry.error) return { status: 'failed', reason: entry.error };
+  if (!entry.imported) return { status: 'checking' };
+  if (entry.uploaded) return { status: 'imported' };
+  if (entry.uploadError) return { status: 'failed', reason: entry.uploadError };
+
+  const match = existing.find(c => sameCollection(entry.imported!, c.id, c.name));
+  if (match) return { status: 'duplicate', reason: `Already imported as "${match.name}"` };
+  const earlier = entries
+    .slice(0, index)
+    .find(e => e.imported && !e.error && sameCollection(entry.imported!, e.imported.collection.info._postman_id, e.imported.collection.info.name));
+  if (earlier) return { status: 'duplicate', reason: `Same collection as ${earlier.file.name}` };
+  return { status: 'ready' };
+};
+
+const FileImport: React.FC<FileImportProps> = ({ canImport, isLoading, setIsLoading, addNotification, onCollectionImported }) => {
+  const [entries, setEntries] = useState<ImportEntry[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { data: existing = [] } = useQuery(queryKeys.userCollections(), () => collectionService.getUserCollections());
+
+  const updateEntry = (key: string, changes: Partial<ImportEntry>) =>
+    setEntries(prev => prev.map(e => (e.key === key ? { ...e, ...changes } : e)));
+
+  // Each file is converted and validated on its own, so one bad file doesn't hold up the rest
+  const addFiles = (files: FileList | null) => {
+    if (!files?.length) return;
+    const added = Array.from(files).map((file, index) => ({ key: `${Date.now()}-${index}-${file.name}`, file }));
+    setEntries(prev => [...prev, ...added]);
+
+    for (const { key, file } of added) {
+      if (file.size > MAX_UPLOAD_BYTES) {
+        updateEntry(key, { error: `Larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB` });
+        continue;
+      }
+      convertFile(file)
+        .then(imported => updateEntry(key, { imported }))
+        .catch(error =>
+          updateEntry(key, error instanceof ImportFormatError
+            ? { error: error.message, problems: error.problems }
+            : { error: 'Failed to read file' }));
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    addFiles(event.dataTransfer.files);
+  };
+
+  const reports = entries.map((_, index) => reportFor(entries, index, existing));
+  const countOf = (status: EntryStatus) => reports.filter(r => r.status === status).length;
+  const toImport = entries.filter((_, index) =>
+    reports[index].status === 'ready' || (includeDuplicates && reports[index].status === 'duplicate'));
+
+  const handleImport = async () => {
+    if (!canImport || toImport.length === 0) return;
+    setIsLoading(true);
+    let failed = 0;
+    try {
+      for (const entry of toImport) {
+        const file = entry.imported!.collection;
+        try {
+          const saved = await collectionService.uploadCollection(file);
+          updateEntry(entry.key, { uploaded: true });
+          if (onCollectionImported) {
+            const now = new Date().toISOString();
+            onCollectionImported({ id: saved.collection_id, name: file.info.name, user_id: '', first_seen: now, last_seen: now });
+          }
+        } catch (error) {
+          failed++;
+          updateEntry(entry.key, { uploadError: describeError(error, 'Failed to import collection') });
+        }
+      }
+      const succeeded = toImport.length - failed;
+      if (succeeded > 0) addNotification('success', `Imported ${succeeded} collection${succeeded === 1 ? '' : 's'}`);
+      if (failed > 0) addNotification('error', `Failed to import ${failed} collection${failed === 1 ? '' : 's'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const removeEntry = (key: string) => setEntries(prev => prev.filter(e => e.key !== key));
+
+  return (
+    <div className="space-y-4">
+      <div
+        onDragOver={event => { event.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => fileInputRef.current?.click()}
+        className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors duration-200 ${
+          isDragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-gray-400'
+        }`}
+      >
+        <Upload className="mx-auto h-8 w-8 text-gray-400" />
+        <p className="mt-2 text-sm text-gray-700">
+          <span className="font-medium text-blue-600">Choose files</span> or drag them here
+        </p>
+        <p className="mt-1 text-xs text-gray-500">{ACCEPTED_EXTENSIONS.split(',').join(' ')} • up to {MAX_UPLOAD_BYTES / 1024 / 1024} MB each</p>
+        <input
+          type="file"
+          ref={fileInputRef}
+          multiple
+          accept={ACCEPTED_EXTENSIONS}
+          onChange={event => addFiles(event.target.files)}
+          className="hidden"
+        />
+      </div>
+
+      {entries.length > 0 && (
+        <>
+          <div className="overflow-x-auto border border-gray-200 rounded-md">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">File</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Collection</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Folders</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Requests</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Variables</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {entries.map((entry, index) => {
+                  const report = reports[index];
+                  const collection = entry.imported?.collection;
+                  const canExpand = !!entry.imported || !!entry.problems?.length;
+                  const isExpanded = expanded === entry.key && canExpand;
+                  return (
+                    <React.Fragment key={entry.key}>
+                      <tr
+                        className={canExpand ? 'cursor-pointer hover:bg-gray-50' : ''}
+                        onClick={() => canExpand && setExpanded(isExpanded ? null : entry.key)}
+                      >
+                        <td className="px-3 py-2 text-gray-900">
+                          <span className="inline-flex items-center gap-1">
+                            {canExpand && (isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />)}
+                            {entry.file.name}
+                          </span>
+                        </td>
+                        <td className="px-3 py-2 text-gray-700">
+                          {collection?.info.name ?? '—'}
+                          {entry.imported && <span className="block text-xs text-gray-400">{entry.imported.format}</span>}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-700">{collection ? countFolders(collection.item) : '—'}</td>
+                        <td className="px-3 py-2 text-right text-gray-700">{collection ? countRequests(collection.item) : '—'}</td>
+                        <td className="px-3 py-2 text-right text-gray-700">{collection ? collectionVariables(collection).length : '—'}</td>
+                        <td className="px-3 py-2">
+                          <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_CLASSES[report.status]}`}>
+                            {report.status === 'checking' && <Loader2 className="animate-spin h-3 w-3" />}
+                            {STATUS_LABELS[report.status]}
+                          </span>
+                          {report.reason && <span className="block mt-1 text-xs text-gray-500">{report.reason}</span>}
+                          {entry.imported && entry.imported.warnings.length > 0 && report.status !== 'failed' && (
+                            <span className="block mt-1 text-xs text-yellow-700">
+                              {entry.imported.warnings.length} warning{entry.imported.warnings.length === 1 ? '' : 's'}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          <button
+                            type="button"
+                            onClick={event => { event.stopPropagation(); removeEntry(entry.key); }}
+                            disabled={isLoading}
+                            className="text-xs text-gray-500 hover:text-red-600 disabled:opacity-50"
+                          >
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr>
+                          <td colSpan={7} className="px-3 py-3 bg-gray-50">
+                            {entry.imported ? (
+                              <ImportPreview imported={entry.imported} />
+                            ) : (
+                              <ul className="list-disc list-inside text-xs text-red-800 space-y-0.5">
+                                {entry.problems!.map(problem => <li key={problem}>{problem}</li>)}
+                              </ul>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-gray-600">
+              {countOf('ready')} will import • {countOf('duplicate')} duplicate{countOf('duplicate') === 1 ? '' : 's'} • {countOf('failed')} failed
+              {countOf('imported') > 0 && ` • ${countOf('imported')} imported`}
+            </p>
+            <div className="flex items-center gap-3">
+              {countOf('duplicate') > 0 && (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={includeDuplicates}
+                    onChange={event => setIncludeDuplicates(event.target.checked)}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  Add duplicates as new snapshots
+                </label>
+              )}
+              <button
+                type="button"
+                onClick={() => { setEntries([]); setExpanded(null); }}
+                disabled={isLoading}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Clear
+              </button>
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={toImport.length === 0 || isLoading || !canImport}
+                className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-md shadow transition-colors duration-200 flex items-center"
+              >
+                {isLoading && <Loader2 className="animate-spin h-4 w-4 mr-2" />}
+                <span>{isLoading ? 'Importing...' : `Import ${toImport.length} collection${toImport.length === 1 ? '' : 's'}`}</span>
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FileImport;
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Loader2, MailCheck } from 'lucide-react';
+import { authService } from '../services/api';
+import { describeError } from '../services/apiError';
+
+const ForgotPasswordForm: React.FC<{ onBack: () => void }> = ({ onBack }) => {
+  const [email, setEmail] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [sent, setSent] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+    try {
+      await authService.requestPasswordReset(email);
+      setSent(true);
+    } catch (err) {
+      setError(describeError(err, 'Failed to send reset link'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-8 rounded-lg shadow-lg max-w-md w-full">
+      <h2 className="text-2xl font-bold text-center mb-6">Reset Password</h2>
+
+      {sent ? (
+        <div className="text-center space-y-3">
+          <MailCheck className="mx-auto h-10 w-10 text-green-600" />
+          <p className="text-sm text-gray-700">
+            If an account exists for <strong>{email}</strong>, we've sent a link to reset its password.
+          </p>
+        </div>
+      ) : (
+        <>
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded">
+              {error}
+            </div>
+          )}
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="forgot-email" className="block text-sm font-medium text-gray-700 mb-1">
+                Email
+              </label>
+              <input
+                type="email"
+                id="forgot-email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full flex items-center justify-center bg-black text-white py-2 px-4 rounded-md hover:bg-gray-900 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              {isLoading && <Loader2 className="animate-spin h-4 w-4 mr-2" />}
+              Send reset link
+            </button>
+          </form>
+        </>
+      )}
+
+      <div className="mt-4 text-center">
+        <button onClick={onBack} className="text-blue-600 hover:text-blue-800 text-sm transition-colors duration-200">
+          Back to sign in
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPasswordForm;
@@ -1,21 +1,13 @@
-import React, { useState, useEffect, useImperativeHandle, forwardRef } from 'react';
+import React, { useState, useEffect, useImperativeHandle, useRef, forwardRef } from 'react';
 import { Loader2 } from 'lucide-react';
-import { collectionService } from '../services/api';
-
-interface Collection {
-  id: string;
-  user_id: string;
-  name: string;
-  first_seen: string;
-  last_seen: string;
-}
-
-interface PostmanCollection {
-  id: string;
-  name: string;
-  description?: string;
-  requests: number;
-}
+import { apiKeyService, collectionService, isAbortError, queryKeys } from '../services/api';
+import { invalidateQueries } from '../services/queryCache';
+import { runWithConcurrency } from '../services/concurrency';
+import { describeError } from '../services/apiError';
+import { useAuth } from '../contexts/AuthContext';
+import BulkImportProgress, { type ImportJob } from './BulkImportProgress';
+import FileImport from './FileImport';
+import type { ApiKey, Collection, PostmanCollection } from '../models';
 
 interface ImportCollectionProps {
   isLoading: boolean;
@@ -24,6 +16,9 @@ interface ImportCollectionProps {
   onCollectionImported?: (collection: Collection) => void;
 }
 
+// Enough to overlap Postman round trips without tripping its rate limit
+const BULK_IMPORT_CONCURRENCY = 3;
+
 export interface ImportCollectionRef {
   fetchPostmanCollections: () => Promise<void>;
   refreshCollections: () => Promise<void>;
@@ -37,84 +32,45 @@ const ImportCollection = forwardRef<ImportCollectionRef, ImportCollectionProps>(
     onCollectionImported,
   } = props;
 
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [postmanCollections, setPostmanCollections] = useState<PostmanCollection[]>([]);
   const [selectedCollectionIds, setSelectedCollectionIds] = useState<Set<string>>(new Set());
   const [isFetchingCollections, setIsFetchingCollections] = useState(false);
-  const [importStatus, setImportStatus] = useState<'idle' | 'importing' | 'success' | 'error'>('idle');
+  const [isImporting, setIsImporting] = useState(false);
   const [importError, setImportError] = useState<string>('');
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  // Empty means whichever key is the account default
+  const [selectedKeyId, setSelectedKeyId] = useState('');
+  const canImport = useAuth().can('collections:import');
+  const [jobs, setJobs] = useState<ImportJob[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      setSelectedFile(file);
-      addNotification('info', `Selected file: ${file.name}`);
-    }
-  };
-
-  const handleUpload = async () => {
-    if (!selectedFile) {
-      addNotification('error', 'Please select a file first');
-      return;
-    }
-
-    setIsLoading(true);
-    try {
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        try {
-          const content = JSON.parse(e.target?.result as string);
-          
-          if (!content.info || !content.info._postman_id || !content.info.name) {
-            addNotification('error', 'Invalid Postman collection file format');
-            return;
-          }
-
-          await collectionService.saveCollection(content.info._postman_id, content.info.name);
-          addNotification('success', 'Collection imported successfully');
-          setSelectedFile(null);
-          
-          if (onCollectionImported) {
-            const newCollection: Collection = {
-              id: content.info._postman_id,
-              name: content.info.name,
-              user_id: '', 
-              first_seen: new Date().toISOString(),
-              last_seen: new Date().toISOString()
-            };
-            onCollectionImported(newCollection);
-          }
-          
-        } catch (error) {
-
-          addNotification('error', 'Failed to import collection');
-        }
-      };
-      reader.readAsText(selectedFile);
-    } catch (error) {
-
-      addNotification('error', 'Failed to process file');
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  useEffect(() => {
+    apiKeyService.getApiKeys()
+      .then(setApiKeys)
+      .catch(error => addNotification('error', describeError(error, 'Failed to fetch API keys')));
+  }, []);
 
-  const fetchPostmanCollections = async () => {
+  const fetchPostmanCollections = async (apiKeyId = selectedKeyId) => {
     setIsFetchingCollections(true);
     setImportError('');
     try {
-      const collections = await collectionService.getCollections();
+      const collections = await collectionService.getCollections(apiKeyId || undefined);
       setPostmanCollections(collections);
     } catch (error) {
-
-      const errorMessage = 'Failed to fetch collections from Postman API';
-      setImportError(errorMessage);
+      setImportError(describeError(error, 'Failed to fetch collections from Postman API'));
       setPostmanCollections([]);
     } finally {
       setIsFetchingCollections(false);
     }
   };
 
+  // Skips the cache so a refresh shows what is in Postman now. Listing stamps
+  // the key's last-used time, so the key list is stale afterwards too.
+  const refreshCollections = async () => {
+    invalidateQueries(queryKeys.postmanCollectionsFor(selectedKeyId || undefined));
+    await fetchPostmanCollections();
+    invalidateQueries(queryKeys.apiKeys());
+  };
 
   const handleCollectionToggle = (collectionId: string) => {
     const newSelected = new Set(selectedCollectionIds);
@@ -126,73 +82,113 @@ const ImportCollection = forwardRef<ImportCollectionRef, ImportCollectionProps>(
     setSelectedCollectionIds(newSelected);
   };
 
-  const handleBulkImport = async () => {
-    if (selectedCollectionIds.size === 0) {
-      addNotification('warning', 'Please select at least one collection to import');
-      return;
+  const updateJob = (id: string, changes: Partial<ImportJob>) =>
+    setJobs(prev => prev.map(job => (job.id === id ? { ...job, ...changes } : job)));
+
+  const markImported = (job: ImportJob) => {
+    updateJob(job.id, { status: 'imported', interrupted: false });
+    if (onCollectionImported) {
+      const now = new Date().toISOString();
+      onCollectionImported({ id: job.id, name: job.name, user_id: '', first_seen: now, last_seen: now });
     }
+  };
 
-    setImportStatus('importing');
+  const importJob = async (job: ImportJob, signal: AbortSignal) => {
+    updateJob(job.id, { status: 'importing', error: undefined });
+    try {
+      await collectionService.saveCollection(job.id, job.name, job.apiKeyId || undefined, { signal });
+      markImported(job);
+      return true;
+    } catch (error) {
+      // An aborted save may still complete on the server, so a retry checks
+      // for it first rather than taking a second snapshot
+      if (isAbortError(error)) {
+        updateJob(job.id, { status: 'cancelled', interrupted: true, lastSeenBefore: job.lastSeenBefore });
+      } else {
+        updateJob(job.id, { status: 'failed', error: describeError(error, 'Failed to import collection') });
+      }
+      return false;
+    }
+  };
+
+  const runJobs = async (batch: ImportJob[]) => {
+    if (!canImport || batch.length === 0 || abortRef.current) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const ids = new Set(batch.map(job => job.id));
+    setJobs(prev => prev.map(job => (ids.has(job.id) ? { ...job, status: 'queued', error: undefined } : job)));
+    setIsImporting(true);
     setIsLoading(true);
-    
+
+    let successCount = 0;
+    let errorCount = 0;
     try {
-      const selectedCollections = postmanCollections.filter(col => 
-        selectedCollectionIds.has(col.id)
-      );
-      
-      let successCount = 0;
-      let errorCount = 0;
-      
-      for (const collection of selectedCollections) {
-        try {
-          await collectionService.saveCollection(collection.id, collection.name);
+      invalidateQueries(queryKeys.userCollections());
+      const imported = await collectionService.getUserCollections({ signal: controller.signal });
+      const lastSeen = new Map(imported.map(c => [c.id, c.last_seen]));
+      // An interrupted save that moved last_seen went through after all
+      const pending = batch
+        .filter(job => {
+          if (!job.interrupted || (lastSeen.get(job.id) ?? null) === job.lastSeenBefore) return true;
+          markImported(job);
+          successCount++;
+          return false;
+        })
+        .map(job => ({ ...job, lastSeenBefore: lastSeen.get(job.id) ?? null }));
+
+      await runWithConcurrency(pending, BULK_IMPORT_CONCURRENCY, async job => {
+        if (await importJob(job, controller.signal)) {
           successCount++;
-          
-          if (onCollectionImported) {
-            const newCollection: Collection = {
-              id: collection.id,
-              name: collection.name,
-              user_id: '',
-              first_seen: new Date().toISOString(),
-              last_seen: new Date().toISOString()
-            };
-            onCollectionImported(newCollection);
-          }
-        } catch (error) {
+        } else if (!controller.signal.aborted) {
           errorCount++;
         }
+      }, controller.signal);
+
+      if (controller.signal.aborted) {
+        setJobs(prev => prev.map(job => (ids.has(job.id) && job.status === 'queued' ? { ...job, status: 'cancelled' } : job)));
       }
-      
       if (successCount > 0) {
-        addNotification('success', 
-          `Successfully imported ${successCount} collection${successCount > 1 ? 's' : ''}`
-        );
+        addNotification('success', `Successfully imported ${successCount} collection${successCount > 1 ? 's' : ''}`);
       }
-      
       if (errorCount > 0) {
-        addNotification('error', 
-          `Failed to import ${errorCount} collection${errorCount > 1 ? 's' : ''}`
-        );
+        addNotification('error', `Failed to import ${errorCount} collection${errorCount > 1 ? 's' : ''}`);
       }
-      
-
-      setSelectedCollectionIds(new Set());
-      setImportStatus(errorCount === 0 ? 'success' : 'error');
-      
     } catch (error) {
-      addNotification('error', 'Failed to import selected collections');
-      setImportStatus('error');
+      // Only the check for earlier imports gets here; saves report their own failures
+      const changes: Partial<ImportJob> = isAbortError(error)
+        ? { status: 'cancelled' }
+        : { status: 'failed', error: describeError(error, 'Failed to check which collections are already imported') };
+      setJobs(prev => prev.map(job => (ids.has(job.id) && job.status === 'queued' ? { ...job, ...changes } : job)));
     } finally {
+      abortRef.current = null;
+      setIsImporting(false);
       setIsLoading(false);
- 
-      setTimeout(() => setImportStatus('idle'), 3000);
     }
   };
 
+  const handleBulkImport = () => {
+    if (!canImport) return;
+    if (selectedCollectionIds.size === 0) {
+      addNotification('warning', 'Please select at least one collection to import');
+      return;
+    }
+    const batch: ImportJob[] = postmanCollections
+      .filter(col => selectedCollectionIds.has(col.id))
+      .map(col => ({ id: col.id, name: col.name, status: 'queued', apiKeyId: selectedKeyId }));
+    setJobs(batch);
+    setSelectedCollectionIds(new Set());
+    runJobs(batch);
+  };
+
+  const handleKeyChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    setSelectedKeyId(event.target.value);
+    setSelectedCollectionIds(new Set());
+    fetchPostmanCollections(event.target.value);
+  };
 
   useImperativeHandle(ref, () => ({
-    fetchPostmanCollections,
-    refreshCollections: fetchPostmanCollections
+    fetchPostmanCollections: () => fetchPostmanCollections(),
+    refreshCollections
   }));
 
 
@@ -204,53 +200,62 @@ const ImportCollection = forwardRef<ImportCollectionRef, ImportCollectionProps>(
     <section>
       <div className="bg-white rounded-lg shadow p-8">
         <h2 className="text-xl font-semibold mb-6">Import API Collections</h2>
-        {/* TODO from the backend */}
         {/* File Upload Section */}
-        {/* <div className="mb-8">
-          <h3 className="text-lg font-medium mb-4">Upload Collection File</h3>
-          <p className="text-sm text-gray-600 mb-4">Upload a Postman collection JSON file to import it into the system.</p>
-          <form onSubmit={e => { e.preventDefault(); handleUpload(); }} className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">Collection File</label>
-              <input
-                type="file"
-                onChange={handleFileSelect}
-                accept=".json"
-                className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
-              />
-            </div>
-            {selectedFile && (
-              <div className="mt-2">
-                <p className="text-sm text-gray-600">Selected file: <span className="font-medium">{selectedFile.name}</span></p>
-              </div>
-            )}
-            <div className="flex justify-end">
-              <button
-                type="submit"
-                disabled={!selectedFile || isLoading}
-                className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-md shadow transition-colors duration-200 flex items-center"
-              >
-                {isLoading && <Loader2 className="animate-spin h-4 w-4 mr-2" />}
-                <span>{isLoading ? 'Importing...' : 'Import Collection'}</span>
-              </button>
-            </div>
-          </form>
-        </div> */}
+        <div className="mb-8">
+          <h3 className="text-lg font-medium mb-4">Upload Collection Files</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Upload an exported Postman collection (v2.x JSON), an OpenAPI 3.x / Swagger 2.0 spec (JSON or YAML), an Insomnia v4 export, a HAR 1.2 capture or a zipped Bruno collection folder. Drop several at once to check them together. The whole file is stored and snapshotted, so it doesn't need to be in your Postman account.
+          </p>
+          <FileImport
+            canImport={canImport}
+            isLoading={isLoading}
+            setIsLoading={setIsLoading}
+            addNotification={addNotification}
+            onCollectionImported={onCollectionImported}
+          />
+        </div>
 
         {/* Import from Postman API */}
         <div className="border-t border-gray-200 pt-8">
           <div className="flex items-center justify-between mb-6">
             <h3 className="text-lg font-medium">Available Collections from Postman API</h3>
-            <button
-              onClick={fetchPostmanCollections}
-              disabled={isFetchingCollections}
-              className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-md shadow transition-colors duration-200 flex items-center"
-            >
-              {isFetchingCollections && <Loader2 className="animate-spin h-4 w-4 mr-2" />}
-              <span>{isFetchingCollections ? 'Fetching...' : 'Refresh Collections'}</span>
-            </button>
+            <div className="flex items-center gap-3">
+              {apiKeys.length > 1 && (
+                <select
+                  value={selectedKeyId}
+                  onChange={handleKeyChange}
+                  disabled={isFetchingCollections || isImporting}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  aria-label="Postman API key"
+                >
+                  {apiKeys.map(key => (
+                    <option key={key.id} value={key.default ? '' : key.id}>
+                      {key.default ? `${key.name} (default)` : key.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button
+                onClick={refreshCollections}
+                disabled={isFetchingCollections}
+                className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-md shadow transition-colors duration-200 flex items-center"
+              >
+                {isFetchingCollections && <Loader2 className="animate-spin h-4 w-4 mr-2" />}
+                <span>{isFetchingCollections ? 'Fetching...' : 'Refresh Collections'}</span>
+              </button>
+            </div>
           </div>
 
+          {jobs.length > 0 && (
+            <BulkImportProgress
+              jobs={jobs}
+              isRunning={isImporting}
+              onCancel={() => abortRef.current?.abort()}
+              onRetry={runJobs}
+              onDismiss={() => setJobs([])}
+            />
+          )}
+
           {/* Collections Loading */}
           {isFetchingCollections && (
             <div className="text-center py-8">
@@ -270,11 +275,11 @@ const ImportCollection = forwardRef<ImportCollectionRef, ImportCollectionProps>(
                 {selectedCollectionIds.size > 0 && (
                   <button
                     onClick={handleBulkImport}
-                    disabled={importStatus === 'importing'}
+                    disabled={isImporting || !canImport}
                     className="bg-green-500 hover:bg-green-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-md shadow transition-colors duration-200 flex items-center"
                   >
-                    {importStatus === 'importing' && <Loader2 className="animate-spin h-4 w-4 mr-2" />}
-                    <span>{importStatus === 'importing' ? 'Importing...' : `Import Selected (${selectedCollectionIds.size})`}</span>
+                    {isImporting && <Loader2 className="animate-spin h-4 w-4 mr-2" />}
+                    <span>{isImporting ? 'Importing...' : `Import Selected (${selectedCollectionIds.size})`}</span>
                   </button>
                 )}
               </div>
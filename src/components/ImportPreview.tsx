@@ -0,0 +1,85 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { collectionVariables, countFolders, countRequests, flattenRequests, type ImportedFile } from '../services/importers';
+import type { SnapshotItem } from '../models';
+
+interface ImportPreviewProps {
+  imported: ImportedFile;
+}
+
+const SAMPLE_SIZE = 8;
+
+const methodClasses = (method: string) => {
+  switch (method.toUpperCase()) {
+    case 'PATCH':
+      return 'bg-amber-100 text-amber-700';
+    case 'DELETE':
+      return 'bg-red-100 text-red-700';
+    case 'GET':
+      return 'bg-green-100 text-green-700';
+    case 'POST':
+      return 'bg-blue-100 text-blue-700';
+    default:
+      return 'bg-gray-100 text-gray-700';
+  }
+};
+
+// Postman allows a request's url to be a plain string or a parsed object
+const urlOf = (item: SnapshotItem) => {
+  const url = item.request?.url;
+  return (typeof url === 'string' ? url : url?.raw) || item.name;
+};
+
+const ImportPreview: React.FC<ImportPreviewProps> = ({ imported }) => {
+  const { collection, format, warnings } = imported;
+  const requests = flattenRequests(collection.item);
+  const requestCount = countRequests(collection.item);
+  const folderCount = countFolders(collection.item);
+  const variables = collectionVariables(collection);
+
+  return (
+    <div className="border border-gray-200 rounded-md p-4 space-y-3">
+      <div>
+        <p className="text-sm font-medium text-gray-900">{collection.info.name}</p>
+        <p className="text-xs text-gray-500">
+          {format} • {requestCount} request{requestCount === 1 ? '' : 's'}
+          {folderCount > 0 && ` in ${folderCount} folder${folderCount === 1 ? '' : 's'}`}
+        </p>
+      </div>
+
+      <ul className="space-y-1">
+        {requests.slice(0, SAMPLE_SIZE).map((item, index) => (
+          <li key={`${item.id}-${index}`} className="flex items-center gap-2 text-xs">
+            <span className={`px-1.5 py-0.5 rounded font-mono font-semibold ${methodClasses(item.request!.method)}`}>
+              {item.request!.method}
+            </span>
+            <span className="text-gray-700 truncate">{urlOf(item)}</span>
+          </li>
+        ))}
+        {requestCount > SAMPLE_SIZE && (
+          <li className="text-xs text-gray-400">and {requestCount - SAMPLE_SIZE} more</li>
+        )}
+      </ul>
+
+      {variables.length > 0 && (
+        <p className="text-xs text-gray-600">
+          Variables: {variables.map(name => <code key={name} className="mr-1 px-1 bg-gray-100 rounded">{`{{${name}}}`}</code>)}
+        </p>
+      )}
+
+      {warnings.length > 0 && (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+          <p className="flex items-center gap-1 text-sm font-medium text-yellow-800 mb-1">
+            <AlertTriangle className="h-4 w-4" />
+            Not everything in this file can be imported
+          </p>
+          <ul className="list-disc list-inside text-xs text-yellow-800 space-y-0.5">
+            {warnings.map(warning => <li key={warning}>{warning}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportPreview;
@@ -2,46 +2,23 @@ import * as React from 'react';
 import { useState, useEffect, useRef } from 'react';
 import { X, CheckCircle, XCircle, Info, AlertTriangle, Upload, Key, Settings, BarChart3, Loader2 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { collectionService, apiKeyService } from '../services/api';
+import { collectionService, apiKeyService, workspaceService, queryKeys, isAbortError } from '../services/api';
+import { getActiveWorkspaceId } from '../config/workspace';
+import { useQuery } from '../hooks/useQuery';
+import { useLatestRequest } from '../hooks/useLatestRequest';
+import { invalidateQueries } from '../services/queryCache';
+import { getReturnTo } from '../services/returnTo';
+import { describeApiKeyError, describeError } from '../services/apiError';
 import LoginForm from './LoginForm';
 import ImportCollection, { type ImportCollectionRef } from './ImportCollections';
-
-interface Collection {
-  id: string;
-  user_id: string;
-  name: string;
-  first_seen: string;
-  last_seen: string;
-}
-
-interface Snapshot {
-  id: number;
-  collection_id: string;
-  snapshot_time: string;
-  collection_name: string;
-  item_count: number;
-  size_kb: number;
-}
-
-interface ApiKey {
-  name: string;
-  key: string;
-  default: boolean;
-}
-
-interface PostmanCollection {
-  id: string;
-  name: string;
-  description?: string;
-  requests: number;
-}
-
-interface CompareResult {
-  path: string;
-  change_type: 'added' | 'deleted' | 'modified';
-  old_value?: string;
-  new_value?: string;
-}
+import BackendProfileSwitcher from './BackendProfileSwitcher';
+import AccountSettings from './AccountSettings';
+import WorkspaceSwitcher from './WorkspaceSwitcher';
+import WorkspaceSettings from './WorkspaceSettings';
+import ShareCollectionModal from './ShareCollectionModal';
+import ScheduleSnapshotsModal from './ScheduleSnapshotsModal';
+import RotateApiKeyModal from './RotateApiKeyModal';
+import { apiKeyProblem, maskApiKey, type ApiKey, type Collection, type CompareResult, type Snapshot } from '../models';
 
 interface Notification {
   id: number;
@@ -107,6 +84,9 @@ const TAB_LIST = [
   { key: 'settings', label: 'Settings' },
 ];
 
+const postmanOwner = (key: ApiKey) =>
+  [key.postman_user, key.postman_team && `(${key.postman_team})`].filter(Boolean).join(' ');
+
 //TODO Utility function for formatting dates. move to utility directory
 function formatDate(dateString?: string) {
   if (!dateString) return 'N/A';
@@ -119,7 +99,10 @@ function formatDate(dateString?: string) {
 
 // Main App Component
 const IntegratorApp: React.FC = () => {
-  const { isAuthenticated, isLoading: authLoading, logout } = useAuth();
+  const { isAuthenticated, isLoading: authLoading, logout, can } = useAuth();
+  const canImport = can('collections:import');
+  const canManageKeys = can('apiKeys:manage');
+  const canCreateSnapshot = can('snapshots:create');
   
   // State
   const [activeTab, setActiveTab] = React.useState<'collections' | 'import' | 'settings'>('collections');
@@ -134,13 +117,19 @@ const IntegratorApp: React.FC = () => {
   const [showCollectionModal, setShowCollectionModal] = React.useState(false);
   const [selectedCollection, setSelectedCollection] = React.useState<Collection | null>(null);
   const [modalSnapshots, setModalSnapshots] = React.useState<Snapshot[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = React.useState<string | null>(getActiveWorkspaceId);
+  const [sharingCollection, setSharingCollection] = React.useState<Collection | null>(null);
+  const [schedulingCollection, setSchedulingCollection] = React.useState<Collection | null>(null);
   const [showActionsForCollection, setShowActionsForCollection] = React.useState<{[key: string]: boolean}>({});
   const [dropdownPosition, setDropdownPosition] = React.useState<{[key: string]: {top: number, left: number}}>({});
   const actionButtonRefs = React.useRef<{[key: string]: HTMLButtonElement | null}>({});
+  const nextCollectionsRequest = useLatestRequest();
 
   // API Keys form state
   const [newKey, setNewKey] = React.useState({ name: '', key: '', setDefault: false });
   const [isAddingKey, setIsAddingKey] = React.useState(false);
+  const [newKeyError, setNewKeyError] = React.useState('');
+  const [rotatingKey, setRotatingKey] = React.useState<ApiKey | null>(null);
 
   // Ref for ImportCollection component
   const importCollectionRef = useRef<ImportCollectionRef>(null);
@@ -171,29 +160,56 @@ const IntegratorApp: React.FC = () => {
     }));
   };
 
-  // Fetch collections on mount and when authenticated
+  // The middleware sent us here to sign in; if the session turned out to be
+  // valid (e.g. refreshed silently) go straight back to the requested page
   useEffect(() => {
-    if (isAuthenticated) {
-      fetchCollections();
+    const returnTo = getReturnTo();
+    if (isAuthenticated && returnTo) {
+      window.location.replace(returnTo);
     }
   }, [isAuthenticated]);
 
-  // Fetch collections when switching to collections tab
+  const { data: loadedWorkspaces } = useQuery(queryKeys.workspaces(), () => workspaceService.getWorkspaces(), {
+    enabled: isAuthenticated,
+  });
+  const workspaces = loadedWorkspaces ?? [];
+  const activeWorkspace = workspaces.find(w => w.id === activeWorkspaceId) ?? null;
+
+  const handleWorkspaceSwitch = (id: string | null) => {
+    workspaceService.switchWorkspace(id);
+    setActiveWorkspaceId(id);
+    setSelectedSnapshots([]);
+    setCompareResults([]);
+  };
+
+  // Fall back to personal collections if we've been removed from the workspace
+  useEffect(() => {
+    if (loadedWorkspaces && activeWorkspaceId && !loadedWorkspaces.some(w => w.id === activeWorkspaceId)) {
+      handleWorkspaceSwitch(null);
+    }
+  }, [loadedWorkspaces, activeWorkspaceId]);
+
+  // Fetch collections once authenticated and whenever the collections tab is
+  // shown or the workspace changes
   useEffect(() => {
     if (isAuthenticated && activeTab === 'collections') {
       fetchCollections();
     }
-  }, [activeTab, isAuthenticated]);
+  }, [activeTab, isAuthenticated, activeWorkspaceId]);
 
+  // A workspace switch starts a new request; the previous one must not land
+  // after it and show the other workspace's collections
   const fetchCollections = async () => {
+    const signal = nextCollectionsRequest();
     setIsLoading(true);
     try {
-      const data = await collectionService.getUserCollections();
+      const data = await collectionService.getUserCollections({ signal });
       setCollections(data);
     } catch (error) {
-      addNotification('error', 'Failed to fetch collections');
+      if (isAbortError(error)) return;
+      addNotification('error', describeError(error, 'Failed to fetch collections'));
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) setIsLoading(false);
     }
   };
 
@@ -229,10 +245,10 @@ const IntegratorApp: React.FC = () => {
     setShowCollectionModal(true);
     setIsLoading(true);
     try {
-      const response = await collectionService.getCollectionSnapshots(collection.id);
-      setModalSnapshots(response.data);
+      const page = await collectionService.getCollectionSnapshots(collection.id);
+      setModalSnapshots(page.data);
     } catch (error) {
-      addNotification('error', 'Failed to fetch snapshots for this collection');
+      addNotification('error', describeError(error, 'Failed to fetch snapshots for this collection', 'Collection'));
       setModalSnapshots([]);
     } finally {
       setIsLoading(false);
@@ -255,7 +271,7 @@ const IntegratorApp: React.FC = () => {
         setCompareResults(data);
         addNotification('success', 'Comparison completed');
       } catch (error) {
-        addNotification('error', 'Failed to compare snapshots');
+        addNotification('error', describeError(error, 'Failed to compare snapshots', 'Collection'));
       }
     }
   };
@@ -263,16 +279,21 @@ const IntegratorApp: React.FC = () => {
   // Handle API key management
   const handleApiKeyAdd = async (event: React.FormEvent) => {
     event.preventDefault();
+    if (!canManageKeys) return;
     
     if (!newKey.name.trim() || !newKey.key.trim()) {
       addNotification('error', 'Please fill in all fields');
       return;
     }
+    const problem = apiKeyProblem(newKey.key.trim());
+    setNewKeyError(problem ?? '');
+    if (problem) return;
 
     setIsAddingKey(true);
     try {
-      await apiKeyService.saveApiKey(newKey.key);
-      addNotification('success', 'API key added successfully');
+      const saved = await apiKeyService.saveApiKey({ name: newKey.name.trim(), apiKey: newKey.key.trim(), isDefault: newKey.setDefault });
+      const owner = postmanOwner(saved);
+      addNotification('success', owner ? `API key added for Postman account ${owner}` : 'API key added successfully');
       
       // Reset form
       setNewKey({ name: '', key: '', setDefault: false });
@@ -281,13 +302,35 @@ const IntegratorApp: React.FC = () => {
       const keys = await apiKeyService.getApiKeys();
       setApiKeys(keys);
     } catch (error) {
-      addNotification('error', 'Failed to add API key');
+      setNewKeyError(describeApiKeyError(error, 'Failed to add API key'));
     } finally {
       setIsAddingKey(false);
     }
   };
 
+  const handleApiKeyRotated = async (key: ApiKey) => {
+    setRotatingKey(null);
+    addNotification('success', `${key.name} rotated`);
+    try {
+      setApiKeys(await apiKeyService.getApiKeys());
+    } catch (error) {
+      addNotification('error', describeError(error, 'Failed to fetch API keys'));
+    }
+  };
+
+  const handleApiKeySetDefault = async (key: ApiKey) => {
+    if (!canManageKeys) return;
+    try {
+      await apiKeyService.setDefaultApiKey(key.id);
+      addNotification('success', `${key.name} is now the default API key`);
+      setApiKeys(await apiKeyService.getApiKeys());
+    } catch (error) {
+      addNotification('error', describeError(error, 'Failed to set default API key', 'API key'));
+    }
+  };
+
   const handleApiKeyDelete = async (id: string) => {
+    if (!canManageKeys) return;
     try {
       await apiKeyService.deleteApiKey(id);
       addNotification('success', 'API key deleted successfully');
@@ -295,7 +338,7 @@ const IntegratorApp: React.FC = () => {
       const keys = await apiKeyService.getApiKeys();
       setApiKeys(keys);
     } catch (error) {
-      addNotification('error', 'Failed to delete API key');
+      addNotification('error', describeError(error, 'Failed to delete API key', 'API key'));
     }
   };
 
@@ -307,7 +350,7 @@ const IntegratorApp: React.FC = () => {
           const keys = await apiKeyService.getApiKeys();
           setApiKeys(keys);
         } catch (error) {
-          addNotification('error', 'Failed to fetch API keys');
+          addNotification('error', describeError(error, 'Failed to fetch API keys'));
         }
       };
       fetchApiKeys();
@@ -348,12 +391,16 @@ const IntegratorApp: React.FC = () => {
           <h1 className="text-3xl font-bold text-gray-800">integrator*</h1>
           <p className="text-gray-600">Manage, import, and compare your Postman collections</p>
         </div>
-        <button
-          onClick={logout}
-          className="ml-auto bg-red-500 hover:bg-red-600 text-white font-semibold py-2 px-4 rounded-md shadow transition-colors duration-200"
-        >
-          Logout
-        </button>
+        <div className="ml-auto flex items-center gap-3">
+          <WorkspaceSwitcher workspaces={workspaces} activeId={activeWorkspaceId} onSwitch={handleWorkspaceSwitch} />
+          <BackendProfileSwitcher onSwitch={logout} />
+          <button
+            onClick={logout}
+            className="bg-red-500 hover:bg-red-600 text-white font-semibold py-2 px-4 rounded-md shadow transition-colors duration-200"
+          >
+            Logout
+          </button>
+        </div>
       </header>
 
       {/* Notifications */}
@@ -370,7 +417,7 @@ const IntegratorApp: React.FC = () => {
       {/* Tabs Navigation */}
       <nav className="mb-8">
         <ul className="flex gap-2">
-          {TAB_LIST.map(tab => (
+          {TAB_LIST.filter(tab => tab.key !== 'import' || canImport).map(tab => (
             <button
               key={tab.key}
               onClick={() => setActiveTab(tab.key as any)}
@@ -393,9 +440,15 @@ const IntegratorApp: React.FC = () => {
           <section>
             <div className="bg-white rounded-lg shadow p-8">
               <div className="flex items-center justify-between mb-6">
-                <h2 className="text-xl font-semibold">Collection Snapshots</h2>
+                <h2 className="text-xl font-semibold">
+                  Collection Snapshots
+                  {activeWorkspace && <span className="ml-2 text-base font-normal text-gray-500">in {activeWorkspace.name}</span>}
+                </h2>
                 <button
-                  onClick={fetchCollections}
+                  onClick={() => {
+                    invalidateQueries(queryKeys.userCollections());
+                    fetchCollections();
+                  }}
                   disabled={isLoading}
                   className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-md shadow transition-colors duration-200 flex items-center"
                 >
@@ -419,15 +472,21 @@ const IntegratorApp: React.FC = () => {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                   </svg>
                   <h3 className="mt-2 text-sm font-medium text-gray-900">No collections found</h3>
-                  <p className="mt-1 text-sm text-gray-500">Use the Import tab to fetch collections.</p>
-                  <div className="mt-6">
-                    <button 
-                      onClick={() => setActiveTab('import')} 
-                      className="bg-blue-500 hover:bg-blue-600 text-white font-semibold py-2 px-4 rounded-md shadow transition-colors duration-200"
-                    >
-                      Import Collections
-                    </button>
-                  </div>
+                  {canImport ? (
+                    <>
+                      <p className="mt-1 text-sm text-gray-500">Use the Import tab to fetch collections.</p>
+                      <div className="mt-6">
+                        <button 
+                          onClick={() => setActiveTab('import')} 
+                          className="bg-blue-500 hover:bg-blue-600 text-white font-semibold py-2 px-4 rounded-md shadow transition-colors duration-200"
+                        >
+                          Import Collections
+                        </button>
+                      </div>
+                    </>
+                  ) : (
+                    <p className="mt-1 text-sm text-gray-500">Ask an editor or admin to import collections.</p>
+                  )}
                 </div>
               )}
 
@@ -490,6 +549,28 @@ const IntegratorApp: React.FC = () => {
                                   >
                                     View Collection History
                                         </a>
+                                  {canImport && (
+                                    <button
+                                      onClick={() => {
+                                        handleClickOutside(collection.id);
+                                        setSharingCollection(collection);
+                                      }}
+                                      className="block w-full text-left px-4 py-2 text-sm text-gray-900 hover:bg-gray-100 hover:text-gray-900"
+                                    >
+                                      Share to Workspace
+                                    </button>
+                                  )}
+                                  {canCreateSnapshot && (
+                                    <button
+                                      onClick={() => {
+                                        handleClickOutside(collection.id);
+                                        setSchedulingCollection(collection);
+                                      }}
+                                      className="block w-full text-left px-4 py-2 text-sm text-gray-900 hover:bg-gray-100 hover:text-gray-900"
+                                    >
+                                      Schedule Snapshots
+                                    </button>
+                                  )}
                                 
                                 </div>
                               </>
@@ -506,7 +587,7 @@ const IntegratorApp: React.FC = () => {
         )}
 
         {/* Import Tab */}
-        {activeTab === 'import' && (
+        {activeTab === 'import' && canImport && (
           <ImportCollection 
             ref={importCollectionRef}
             isLoading={isLoading} 
@@ -519,6 +600,13 @@ const IntegratorApp: React.FC = () => {
         {/* Settings Tab */}
         {activeTab === 'settings' && (
           <section>
+            <AccountSettings addNotification={addNotification} />
+            <WorkspaceSettings
+              workspaces={workspaces}
+              activeWorkspace={activeWorkspace}
+              onSwitch={handleWorkspaceSwitch}
+              addNotification={addNotification}
+            />
             <div className="bg-white rounded-lg shadow p-8">
               <h2 className="text-xl font-semibold mb-6">API Keys Management</h2>
 
@@ -543,40 +631,58 @@ const IntegratorApp: React.FC = () => {
                         <tr>
                           <th className="px-4 py-3 text-left font-semibold text-gray-500 uppercase tracking-wider">Name</th>
                           <th className="px-4 py-3 text-left font-semibold text-gray-500 uppercase tracking-wider">Key</th>
+                          <th className="px-4 py-3 text-left font-semibold text-gray-500 uppercase tracking-wider">Postman Account</th>
+                          <th className="px-4 py-3 text-left font-semibold text-gray-500 uppercase tracking-wider">Last Used</th>
                           <th className="px-4 py-3 text-left font-semibold text-gray-500 uppercase tracking-wider">Status</th>
-                          <th className="px-4 py-3 text-left font-semibold text-gray-500 uppercase tracking-wider">Actions</th>
+                          {canManageKeys && (
+                            <th className="px-4 py-3 text-left font-semibold text-gray-500 uppercase tracking-wider">Actions</th>
+                          )}
                         </tr>
                       </thead>
                       <tbody className="bg-white divide-y divide-gray-100">
                         {apiKeys.map(key => (
-                          <tr key={key.name} className="hover:bg-gray-50">
+                          <tr key={key.id} className="hover:bg-gray-50">
                             <td className="px-4 py-3 whitespace-nowrap">
                               <div className="font-medium text-gray-900">{key.name}</div>
                             </td>
                             <td className="px-4 py-3 whitespace-nowrap">
-                              <div className="text-gray-500 font-mono text-xs">{key.key.substring(0, 12) + '...'}</div>
+                              <div className="text-gray-500 font-mono text-xs">{maskApiKey(key.key_last4)}</div>
+                            </td>
+                            <td className="px-4 py-3 whitespace-nowrap text-gray-500">
+                              {postmanOwner(key) || 'Unknown'}
+                            </td>
+                            <td className="px-4 py-3 whitespace-nowrap text-gray-500">
+                              {key.last_used_at ? formatDate(key.last_used_at) : 'Never'}
                             </td>
                             <td className="px-4 py-3 whitespace-nowrap">
                               {key.default && (
                                 <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">Default</span>
                               )}
                             </td>
-                            <td className="px-4 py-3 whitespace-nowrap text-sm font-medium space-x-2">
-                              {!key.default && (
+                            {canManageKeys && (
+                              <td className="px-4 py-3 whitespace-nowrap text-sm font-medium space-x-2">
+                                {!key.default && (
+                                  <button
+                                    onClick={() => handleApiKeySetDefault(key)}
+                                    className="text-blue-600 hover:text-blue-900 hover:underline"
+                                  >
+                                    Set Default
+                                  </button>
+                                )}
                                 <button
-                                  onClick={() => {/* TODO: set default key */}}
+                                  onClick={() => setRotatingKey(key)}
                                   className="text-blue-600 hover:text-blue-900 hover:underline"
                                 >
-                                  Set Default
+                                  Rotate
                                 </button>
-                              )}
-                              <button
-                                onClick={() => handleApiKeyDelete(key.name)}
-                                className="text-red-600 hover:text-red-900 hover:underline"
-                              >
-                                Delete
-                              </button>
-                            </td>
+                                <button
+                                  onClick={() => handleApiKeyDelete(key.id)}
+                                  className="text-red-600 hover:text-red-900 hover:underline"
+                                >
+                                  Delete
+                                </button>
+                              </td>
+                            )}
                           </tr>
                         ))}
                       </tbody>
@@ -586,6 +692,9 @@ const IntegratorApp: React.FC = () => {
               </div>
 
               {/* Add New API Key */}
+              {!canManageKeys ? (
+                <p className="border-t border-gray-200 pt-8 text-sm text-gray-500">Only admins can add or remove API keys.</p>
+              ) : (
               <div className="border-t border-gray-200 pt-8">
                 <h3 className="text-lg font-medium mb-3">Add New API Key</h3>
                 <form onSubmit={handleApiKeyAdd} className="space-y-4">
@@ -611,10 +720,12 @@ const IntegratorApp: React.FC = () => {
                         value={newKey.key}
                         onChange={(e) => setNewKey(prev => ({ ...prev, key: e.target.value }))}
                         placeholder="PMAK-xxxx..."
-                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        className={`mt-1 block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${newKeyError ? 'border-red-300' : 'border-gray-300'}`}
                         required
                       />
-                      <p className="mt-1 text-xs text-gray-500">Your Postman API key from your Postman account</p>
+                      <p className={`mt-1 text-xs ${newKeyError ? 'text-red-600' : 'text-gray-500'}`}>
+                        {newKeyError || 'Your Postman API key from your Postman account'}
+                      </p>
                     </div>
                   </div>
                   <div className="flex items-center">
@@ -634,11 +745,12 @@ const IntegratorApp: React.FC = () => {
                       className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-md shadow transition-colors duration-200 flex items-center"
                     >
                       {isAddingKey && <Loader2 className="animate-spin h-4 w-4 mr-2" />}
-                      <span>{isAddingKey ? 'Adding...' : 'Add API Key'}</span>
+                      <span>{isAddingKey ? 'Checking key...' : 'Add API Key'}</span>
                     </button>
                   </div>
                 </form>
               </div>
+              )}
 
               {/* Instructions */}
               <div className="mt-8 border-t border-gray-200 pt-8">
@@ -652,13 +764,38 @@ const IntegratorApp: React.FC = () => {
                     <li>Click <strong>Generate API Key</strong> and provide a name</li>
                     <li>Copy the generated key and paste it above</li>
                   </ol>
-                  <p className="mt-4 text-sm text-gray-600">Your API key allows this application to access your Postman collections. The key is stored locally on your machine.</p>
+                  <p className="mt-4 text-sm text-gray-600">Your API key allows this application to access your Postman collections. The key is checked with Postman when you save it, and only its last four characters are shown here.</p>
                 </div>
               </div>
             </div>
           </section>
         )}
       </div>
+
+      {rotatingKey && (
+        <RotateApiKeyModal
+          apiKey={rotatingKey}
+          onRotated={handleApiKeyRotated}
+          onClose={() => setRotatingKey(null)}
+        />
+      )}
+
+      {sharingCollection && (
+        <ShareCollectionModal
+          collection={sharingCollection}
+          workspaces={workspaces}
+          onClose={() => setSharingCollection(null)}
+          addNotification={addNotification}
+        />
+      )}
+
+      {schedulingCollection && (
+        <ScheduleSnapshotsModal
+          collection={schedulingCollection}
+          onClose={() => setSchedulingCollection(null)}
+          addNotification={addNotification}
+        />
+      )}
     </div>
   );
 };
@@ -1,56 +1,70 @@
 import * as React from 'react';
 import { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import axios, { AxiosError } from 'axios';
+import { describeError } from '../services/apiError';
+import { LOGIN_PATH, getReturnTo } from '../services/returnTo';
+import { PASSWORD_MIN_LENGTH, passwordProblem, type OAuthProvider } from '../models';
+import { authService } from '../services/api';
+import ForgotPasswordForm from './ForgotPasswordForm';
 
 interface LoginFormProps {
   onSuccess?: () => void;
 }
 
 const LoginForm: React.FC<LoginFormProps> = ({ onSuccess }: { onSuccess?: () => void }) => {
-  const { login, signup } = useAuth();
+  const { login, signup, loginWithProvider } = useAuth();
   const [isLogin, setIsLogin] = useState(true);
+  const [isForgot, setIsForgot] = useState(false);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [showPassword, setShowPassword] = useState(false);
+  const [providers, setProviders] = useState<OAuthProvider[]>([]);
 
   useEffect(() => {
     // Check URL for mode parameter
     const params = new URLSearchParams(window.location.search);
     const mode = params.get('mode');
     setIsLogin(mode !== 'signup');
+    setIsForgot(mode === 'forgot');
+    // Set by the SSO callback when the provider or backend turned us away
+    setError(params.get('ssoError') ?? '');
+
+    // Email/password stays available if the provider list can't be loaded
+    authService.getOAuthProviders().then(setProviders).catch(() => setProviders([]));
   }, []);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+
+    const problem = isLogin ? null : passwordProblem(password);
+    if (problem) {
+      setError(problem);
+      return;
+    }
     setIsLoading(true);
 
     try {
       if (isLogin) {
         await login(email, password);
-        window.location.href = '/app';
       } else {
         await signup(email, password);
-        window.location.href = '/app';
       }
+      window.location.href = getReturnTo() ?? LOGIN_PATH;
       onSuccess?.();
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const apiMsg = error.response?.data?.error || error.response?.data?.message;
-        setError(apiMsg || error.message || 'An error occurred');
-      } else if (error instanceof Error) {
-        setError(error.message);
-      } else {
-        setError('An error occurred');
-      }
+      setError(describeError(error, 'An error occurred'));
     } finally {
       setIsLoading(false);
     }
   };
 
+  if (isForgot) {
+    return <ForgotPasswordForm onBack={() => setIsForgot(false)} />;
+  }
+
   return (
     <div className="bg-white p-8 rounded-lg shadow-lg max-w-md w-full">
       <h2 className="text-2xl font-bold text-center mb-6">
@@ -63,6 +77,26 @@ const LoginForm: React.FC<LoginFormProps> = ({ onSuccess }: { onSuccess?: () =>
         </div>
       )}
 
+      {providers.length > 0 && (
+        <div className="mb-6 space-y-2">
+          {providers.map(provider => (
+            <button
+              key={provider.id}
+              type="button"
+              onClick={() => loginWithProvider(provider.id)}
+              className="w-full py-2 px-4 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors duration-200"
+            >
+              Continue with {provider.label}
+            </button>
+          ))}
+          <div className="flex items-center gap-3 pt-2 text-xs text-gray-400">
+            <div className="flex-1 border-t border-gray-200" />
+            or use email
+            <div className="flex-1 border-t border-gray-200" />
+          </div>
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-4">
         <div>
           <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
@@ -108,6 +142,19 @@ const LoginForm: React.FC<LoginFormProps> = ({ onSuccess }: { onSuccess?: () =>
               )}
             </button>
           </div>
+          {isLogin ? (
+            <div className="mt-1 text-right">
+              <button
+                type="button"
+                onClick={() => setIsForgot(true)}
+                className="text-sm text-blue-600 hover:text-blue-800 transition-colors duration-200"
+              >
+                Forgot password?
+              </button>
+            </div>
+          ) : (
+            <p className="mt-1 text-xs text-gray-500">At least {PASSWORD_MIN_LENGTH} characters, with letters and numbers.</p>
+          )}
         </div>
 
         <button
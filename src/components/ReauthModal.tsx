@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Loader2, Lock } from 'lucide-react';
+import { authService } from '../services/api';
+import { describeError } from '../services/apiError';
+import type { Session } from '../models';
+
+interface ReauthModalProps {
+  onSuccess: (session: Session) => void;
+  onCancel: () => void;
+}
+
+// Shown when the session lapses mid-task; requests that failed with a 401
+// are held until this resolves, so nothing on the page is lost.
+const ReauthModal: React.FC<ReauthModalProps> = ({ onSuccess, onCancel }) => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+    try {
+      onSuccess(await authService.login(email, password));
+    } catch (err) {
+      setError(describeError(err, 'Failed to sign in'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 px-4">
+      <div className="bg-white p-8 rounded-lg shadow-lg max-w-md w-full">
+        <div className="flex items-center gap-2 mb-2">
+          <Lock className="h-5 w-5 text-gray-700" />
+          <h2 className="text-xl font-bold">Session expired</h2>
+        </div>
+        <p className="text-sm text-gray-600 mb-6">Sign in again to pick up where you left off.</p>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="reauth-email" className="block text-sm font-medium text-gray-700 mb-1">
+              Email
+            </label>
+            <input
+              type="email"
+              id="reauth-email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              required
+            />
+          </div>
+
+          <div>
+            <label htmlFor="reauth-password" className="block text-sm font-medium text-gray-700 mb-1">
+              Password
+            </label>
+            <input
+              type="password"
+              id="reauth-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              required
+            />
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="flex-1 py-2 px-4 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+            >
+              Log out
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="flex-1 flex items-center justify-center bg-black text-white py-2 px-4 rounded-md hover:bg-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading && <Loader2 className="animate-spin h-4 w-4 mr-2" />}
+              Sign In
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ReauthModal;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { CheckCircle, Loader2 } from 'lucide-react';
+import { authService } from '../services/api';
+import { describeError, isApiError } from '../services/apiError';
+import { PASSWORD_MIN_LENGTH, passwordProblem } from '../models';
+import { LOGIN_PATH } from '../services/returnTo';
+
+const ResetPasswordForm: React.FC<{ token: string }> = ({ token }) => {
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [done, setDone] = useState(false);
+  const [linkExpired, setLinkExpired] = useState(false);
+
+  const problem = password ? passwordProblem(password) : null;
+  const mismatch = confirm.length > 0 && confirm !== password;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (passwordProblem(password) || password !== confirm) return;
+
+    setIsLoading(true);
+    try {
+      await authService.resetPassword(token, password);
+      setDone(true);
+    } catch (err) {
+      // An expired or reused link comes back as a 400/404 on the token
+      const expired = isApiError(err) && (err.code === 'not_found' || err.code === 'bad_request');
+      setLinkExpired(expired);
+      setError(expired ? 'This reset link is invalid or has expired.' : describeError(err, 'Failed to reset password'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (done) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow-lg max-w-md w-full text-center space-y-4">
+        <CheckCircle className="mx-auto h-10 w-10 text-green-600" />
+        <p className="text-gray-700">Your password has been reset.</p>
+        <a href={LOGIN_PATH} className="inline-block bg-black text-white py-2 px-4 rounded-md hover:bg-gray-900">
+          Sign in
+        </a>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white p-8 rounded-lg shadow-lg max-w-md w-full">
+      <h2 className="text-2xl font-bold text-center mb-6">Choose a New Password</h2>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded">
+          {error}
+          {linkExpired && (
+            <a href={`${LOGIN_PATH}?mode=forgot`} className="block mt-1 underline">Send a new link</a>
+          )}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="new-password" className="block text-sm font-medium text-gray-700 mb-1">
+            New password
+          </label>
+          <input
+            type="password"
+            id="new-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${problem ? 'border-red-300' : 'border-gray-300'}`}
+            required
+          />
+          <p className={`mt-1 text-xs ${problem ? 'text-red-600' : 'text-gray-500'}`}>
+            {problem ?? `At least ${PASSWORD_MIN_LENGTH} characters, with letters and numbers.`}
+          </p>
+        </div>
+        <div>
+          <label htmlFor="confirm-password" className="block text-sm font-medium text-gray-700 mb-1">
+            Confirm password
+          </label>
+          <input
+            type="password"
+            id="confirm-password"
+            value={confirm}
+            onChange={(e) => setConfirm(e.target.value)}
+            className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${mismatch ? 'border-red-300' : 'border-gray-300'}`}
+            required
+          />
+          {mismatch && <p className="mt-1 text-xs text-red-600">Passwords don't match</p>}
+        </div>
+        <button
+          type="submit"
+          disabled={isLoading || !!problem || mismatch || !password || !confirm}
+          className="w-full flex items-center justify-center bg-black text-white py-2 px-4 rounded-md hover:bg-gray-900 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+        >
+          {isLoading && <Loader2 className="animate-spin h-4 w-4 mr-2" />}
+          Reset password
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ResetPasswordForm;
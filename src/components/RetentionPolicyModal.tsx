@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import { Archive, Loader2, X } from 'lucide-react';
+import { isAbortError, queryKeys, retentionService } from '../services/api';
+import { describeError } from '../services/apiError';
+import { useQuery } from '../hooks/useQuery';
+import { useLatestRequest } from '../hooks/useLatestRequest';
+import { describeRetention, formatFileSize, retentionProblem, type RetentionInput, type SnapshotDeletion } from '../models';
+
+interface RetentionPolicyModalProps {
+  collectionId: string;
+  collectionName: string;
+  onClose: () => void;
+  onSaved: (deletion: SnapshotDeletion) => void;
+  onRemoved: () => void;
+}
+
+const RetentionPolicyModal: React.FC<RetentionPolicyModalProps> = ({ collectionId, collectionName, onClose, onSaved, onRemoved }) => {
+  const { data: policy, isLoading, error: loadError } = useQuery(
+    queryKeys.retention(collectionId),
+    signal => retentionService.getPolicy(collectionId, { signal })
+  );
+  const [limitCount, setLimitCount] = useState(true);
+  const [keepLast, setKeepLast] = useState('10');
+  const [limitAge, setLimitAge] = useState(false);
+  const [keepDays, setKeepDays] = useState('90');
+  const [keepLabeled, setKeepLabeled] = useState(true);
+  const [preview, setPreview] = useState<SnapshotDeletion | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const nextPreview = useLatestRequest();
+
+  // Start the form from the saved policy once it has loaded
+  useEffect(() => {
+    if (!policy) return;
+    setLimitCount(policy.keep_last !== null);
+    setKeepLast(String(policy.keep_last ?? 10));
+    setLimitAge(policy.keep_days !== null);
+    setKeepDays(String(policy.keep_days ?? 90));
+    setKeepLabeled(policy.keep_labeled);
+  }, [policy]);
+
+  const input: RetentionInput = {
+    keep_last: limitCount ? Number(keepLast) : null,
+    keep_days: limitAge ? Number(keepDays) : null,
+    keep_labeled: keepLabeled,
+  };
+  const problem = retentionProblem(input);
+
+  // Ask the backend what this policy would delete, so saving is never a surprise
+  useEffect(() => {
+    setPreview(null);
+    if (problem || isLoading) return;
+    const signal = nextPreview();
+    retentionService.previewPolicy(collectionId, input, { signal })
+      .then(setPreview)
+      .catch(err => {
+        if (!isAbortError(err)) setError(describeError(err, 'Failed to preview the retention policy', 'Collection'));
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [collectionId, input.keep_last, input.keep_days, input.keep_labeled, problem, isLoading]);
+
+  const doomed = preview?.snapshot_ids.length ?? 0;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (problem) return;
+    setError('');
+    setIsSaving(true);
+    try {
+      onSaved(await retentionService.savePolicy(collectionId, input));
+    } catch (err) {
+      setError(describeError(err, 'Failed to save retention policy', 'Collection'));
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setError('');
+    setIsSaving(true);
+    try {
+      await retentionService.deletePolicy(collectionId);
+      onRemoved();
+    } catch (err) {
+      setError(describeError(err, 'Failed to remove retention policy', 'Collection'));
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 px-4">
+      <div className="bg-white p-8 rounded-lg shadow-lg max-w-md w-full">
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center gap-2">
+            <Archive className="h-5 w-5 text-gray-700" />
+            <h2 className="text-xl font-bold">Snapshot retention</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <span className="sr-only">Close</span>
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-6">
+          Delete old snapshots of <span className="font-medium">{collectionName}</span> automatically. A snapshot is kept if any
+          rule below keeps it, and the newest snapshot is always kept.
+        </p>
+
+        {(error || !!loadError) && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded">
+            {error || describeError(loadError, 'Failed to load retention policy', 'Collection')}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="animate-spin h-6 w-6 text-blue-500" />
+          </div>
+        ) : (
+          <form onSubmit={handleSave} className="space-y-4">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={limitCount}
+                onChange={(e) => setLimitCount(e.target.checked)}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+              />
+              Keep the newest
+              <input
+                type="number"
+                min={1}
+                value={keepLast}
+                disabled={!limitCount}
+                onChange={(e) => setKeepLast(e.target.value)}
+                aria-label="Number of snapshots to keep"
+                className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm disabled:bg-gray-100"
+              />
+              snapshots
+            </label>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={limitAge}
+                onChange={(e) => setLimitAge(e.target.checked)}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+              />
+              Keep everything from the last
+              <input
+                type="number"
+                min={1}
+                value={keepDays}
+                disabled={!limitAge}
+                onChange={(e) => setKeepDays(e.target.value)}
+                aria-label="Number of days to keep snapshots for"
+                className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm disabled:bg-gray-100"
+              />
+              days
+            </label>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={keepLabeled}
+                onChange={(e) => setKeepLabeled(e.target.checked)}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+              />
+              Always keep labelled snapshots
+            </label>
+
+            {problem ? (
+              <p className="text-xs text-red-600">{problem}</p>
+            ) : (
+              <p className="text-xs text-gray-500">{describeRetention(input)}</p>
+            )}
+
+            {doomed > 0 && (
+              <p className="p-3 bg-yellow-50 border border-yellow-200 text-yellow-800 text-sm rounded">
+                Saving deletes {doomed} snapshot{doomed === 1 ? '' : 's'} now ({formatFileSize(preview?.freed_kb ?? 0)}). This can't be undone.
+              </p>
+            )}
+
+            <div className="flex gap-3">
+              {policy && (
+                <button
+                  type="button"
+                  onClick={handleRemove}
+                  disabled={isSaving}
+                  className="flex-1 px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Keep everything
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={isSaving || !!problem || !preview}
+                className={`flex-1 flex items-center justify-center disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-md shadow transition-colors duration-200 ${
+                  doomed > 0 ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-500 hover:bg-blue-600'
+                }`}
+              >
+                {isSaving && <Loader2 className="animate-spin h-4 w-4 mr-2" />}
+                <span>{isSaving ? 'Saving...' : doomed > 0 ? `Save and delete ${doomed}` : 'Save policy'}</span>
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RetentionPolicyModal;
@@ -0,0 +1,35 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { subscribeRetries, type PendingRetry } from '../services/retryPolicy';
+
+const RetryIndicator: React.FC = () => {
+  const [retries, setRetries] = useState<PendingRetry[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => subscribeRetries(setRetries), []);
+
+  // Tick the countdown only while something is waiting
+  useEffect(() => {
+    if (retries.length === 0) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [retries]);
+
+  if (retries.length === 0) return null;
+
+  const next = retries.reduce((soonest, retry) => (retry.retryAt < soonest.retryAt ? retry : soonest));
+  const seconds = Math.max(0, Math.ceil((next.retryAt - now) / 1000));
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50 flex items-center gap-2 px-4 py-2 rounded-md shadow-lg bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+      <RefreshCw className="h-4 w-4 animate-spin" />
+      <span>
+        Request failed, retrying in {seconds}s (attempt {next.attempt + 1} of {next.maxAttempts})
+        {retries.length > 1 && ` · ${retries.length - 1} more waiting`}
+      </span>
+    </div>
+  );
+};
+
+export default RetryIndicator;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { Loader2, RotateCw, X } from 'lucide-react';
+import { apiKeyService } from '../services/api';
+import { describeApiKeyError } from '../services/apiError';
+import { apiKeyProblem, maskApiKey, type ApiKey } from '../models';
+
+interface RotateApiKeyModalProps {
+  apiKey: ApiKey;
+  onRotated: (key: ApiKey) => void;
+  onClose: () => void;
+}
+
+const RotateApiKeyModal: React.FC<RotateApiKeyModalProps> = ({ apiKey, onRotated, onClose }) => {
+  const [newKey, setNewKey] = useState('');
+  const [error, setError] = useState('');
+  const [isRotating, setIsRotating] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = apiKeyProblem(newKey.trim());
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setError('');
+    setIsRotating(true);
+    try {
+      onRotated(await apiKeyService.rotateApiKey(apiKey.id, newKey.trim()));
+    } catch (err) {
+      setError(describeApiKeyError(err, 'Failed to rotate API key'));
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 px-4">
+      <div className="bg-white p-8 rounded-lg shadow-lg max-w-md w-full">
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center gap-2">
+            <RotateCw className="h-5 w-5 text-gray-700" />
+            <h2 className="text-xl font-bold">Rotate {apiKey.name}</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <span className="sr-only">Close</span>
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-6">
+          Replaces <span className="font-mono">{maskApiKey(apiKey.key_last4)}</span>. Collections imported with this key keep using it.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="rotate-key" className="block text-sm font-medium text-gray-700 mb-1">New Postman API key</label>
+            <input
+              type="password"
+              id="rotate-key"
+              value={newKey}
+              onChange={(e) => setNewKey(e.target.value)}
+              placeholder="PMAK-xxxx..."
+              className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${error ? 'border-red-300' : 'border-gray-300'}`}
+              required
+            />
+            {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+          </div>
+          <button
+            type="submit"
+            disabled={isRotating || !newKey.trim()}
+            className="w-full flex items-center justify-center bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-md shadow transition-colors duration-200"
+          >
+            {isRotating && <Loader2 className="animate-spin h-4 w-4 mr-2" />}
+            <span>{isRotating ? 'Checking key...' : 'Rotate Key'}</span>
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default RotateApiKeyModal;
@@ -0,0 +1,110 @@
+import React from 'react';
+import { CheckCircle, Loader2, XCircle } from 'lucide-react';
+import { queryKeys, scheduleService } from '../services/api';
+import { describeError } from '../services/apiError';
+import { useQuery } from '../hooks/useQuery';
+import { useSnapshotLabels } from '../hooks/useSnapshotLabels';
+import ScheduleStatus from './ScheduleStatus';
+import type { Snapshot } from '../models';
+
+interface ScheduleRunHistoryProps {
+  collectionId: string;
+  // The page of snapshots on screen, used to link runs to the snapshot they created
+  snapshots: Snapshot[];
+}
+
+const ScheduleRunHistory: React.FC<ScheduleRunHistoryProps> = ({ collectionId, snapshots }) => {
+  const { data: schedule, isLoading: scheduleLoading, error: scheduleError } = useQuery(
+    queryKeys.schedule(collectionId),
+    () => scheduleService.getSchedule(collectionId)
+  );
+  const { data: runs = [], isLoading: runsLoading, error: runsError } = useQuery(
+    queryKeys.scheduleRuns(collectionId),
+    () => scheduleService.getRuns(collectionId),
+    { enabled: !!schedule }
+  );
+  const error = scheduleError ?? runsError;
+  const labelFor = useSnapshotLabels(collectionId);
+
+  return (
+    <div className="mt-10">
+      <h2 className="text-xl font-bold mb-4">Scheduled Runs</h2>
+
+      {(scheduleLoading || runsLoading) && (
+        <div className="flex items-center text-gray-600">
+          <Loader2 className="w-5 h-5 animate-spin text-blue-600 mr-2" />
+          Loading schedule...
+        </div>
+      )}
+
+      {!!error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">
+          {describeError(error, 'Failed to load the snapshot schedule', 'Collection')}
+        </div>
+      )}
+
+      {!scheduleLoading && !error && !schedule && (
+        <p className="text-gray-500">
+          No schedule. Use <span className="font-medium">Schedule Snapshots</span> in the collection's actions menu to snapshot it automatically.
+        </p>
+      )}
+
+      {schedule && (
+        <div className="space-y-4">
+          <ScheduleStatus schedule={schedule} />
+
+          {!runsLoading && runs.length === 0 && <p className="text-gray-500">The schedule hasn't run yet.</p>}
+
+          {runs.length > 0 && (
+            <div className="overflow-x-auto bg-white rounded-xl shadow-md border border-gray-200">
+              <table className="min-w-full text-sm text-left">
+                <thead className="bg-gray-100 text-gray-700 uppercase text-xs">
+                  <tr>
+                    <th className="px-6 py-4 font-semibold">Run Time</th>
+                    <th className="px-6 py-4 font-semibold">Status</th>
+                    <th className="px-6 py-4 font-semibold">Snapshot</th>
+                    <th className="px-6 py-4 font-semibold">Error</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {runs.map(run => {
+                    const snapshot = snapshots.find(s => s.id === run.snapshot_id);
+                    return (
+                      <tr key={run.id} className="hover:bg-gray-50 transition-colors">
+                        <td className="px-6 py-4 text-gray-700">{new Date(run.started_at).toLocaleString()}</td>
+                        <td className="px-6 py-4">
+                          {run.status === 'success' ? (
+                            <span className="inline-flex items-center gap-1 text-green-700"><CheckCircle className="w-4 h-4" />Succeeded</span>
+                          ) : (
+                            <span className="inline-flex items-center gap-1 text-red-700"><XCircle className="w-4 h-4" />Failed</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-gray-700">
+                          {run.snapshot_id === null ? (
+                            '—'
+                          ) : snapshot ? (
+                            <a
+                              href={`/app/snapshot/${snapshot.id}?collectionId=${snapshot.collection_id}&itemSize=${snapshot.item_count}`}
+                              className="text-blue-600 hover:underline"
+                            >
+                              {labelFor(snapshot.id)}
+                            </a>
+                          ) : (
+                            labelFor(run.snapshot_id)
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-red-700">{run.error ?? ''}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScheduleRunHistory;
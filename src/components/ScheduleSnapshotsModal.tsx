@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarClock, Loader2, X } from 'lucide-react';
+import { queryKeys, scheduleService } from '../services/api';
+import { describeError } from '../services/apiError';
+import { useQuery } from '../hooks/useQuery';
+import { cronProblem, nextCronRun, scheduleCron, type Collection, type ScheduleFrequency } from '../models';
+import ScheduleStatus from './ScheduleStatus';
+
+interface ScheduleSnapshotsModalProps {
+  collection: Collection;
+  onClose: () => void;
+  addNotification: (type: 'success' | 'error' | 'info' | 'warning', message: string) => void;
+}
+
+const FREQUENCY_OPTIONS: { value: ScheduleFrequency; label: string }[] = [
+  { value: 'hourly', label: 'Hourly (on the hour)' },
+  { value: 'daily', label: 'Daily (00:00 UTC)' },
+  { value: 'weekly', label: 'Weekly (Mondays, 00:00 UTC)' },
+  { value: 'cron', label: 'Custom cron expression' },
+];
+
+const ScheduleSnapshotsModal: React.FC<ScheduleSnapshotsModalProps> = ({ collection, onClose, addNotification }) => {
+  const { data: schedule, isLoading, error: loadError } = useQuery(
+    queryKeys.schedule(collection.id),
+    () => scheduleService.getSchedule(collection.id)
+  );
+  const [frequency, setFrequency] = useState<ScheduleFrequency>('daily');
+  const [cron, setCron] = useState('');
+  const [enabled, setEnabled] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Start the form from the saved schedule once it has loaded
+  useEffect(() => {
+    if (!schedule) return;
+    setFrequency(schedule.frequency);
+    setCron(schedule.cron ?? '');
+    setEnabled(schedule.enabled);
+  }, [schedule]);
+
+  const cronError = frequency === 'cron' && cron.trim() ? cronProblem(cron) : null;
+
+  const describeNextRun = () => {
+    if (!enabled) return 'Paused: no snapshots will be taken until the schedule is enabled again.';
+    if (frequency === 'cron' && (!cron.trim() || cronError)) return '';
+    const next = nextCronRun(scheduleCron({ frequency, cron }));
+    return next ? `Next run after saving: ${next.toLocaleString()}` : "This expression never matches a date, so it won't run.";
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (frequency === 'cron' && (cronError || !cron.trim())) {
+      setError(cronError ?? 'Enter a cron expression');
+      return;
+    }
+    setError('');
+    setIsSaving(true);
+    try {
+      await scheduleService.saveSchedule(collection.id, {
+        enabled,
+        frequency,
+        cron: frequency === 'cron' ? cron.trim() : undefined,
+      });
+      addNotification('success', enabled ? `Scheduled snapshots for ${collection.name}` : `Paused scheduled snapshots for ${collection.name}`);
+      onClose();
+    } catch (err) {
+      setError(describeError(err, 'Failed to save schedule', 'Collection'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setError('');
+    setIsSaving(true);
+    try {
+      await scheduleService.deleteSchedule(collection.id);
+      addNotification('success', `Removed the snapshot schedule for ${collection.name}`);
+      onClose();
+    } catch (err) {
+      setError(describeError(err, 'Failed to remove schedule', 'Collection'));
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 px-4">
+      <div className="bg-white p-8 rounded-lg shadow-lg max-w-md w-full">
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5 text-gray-700" />
+            <h2 className="text-xl font-bold">Schedule snapshots</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <span className="sr-only">Close</span>
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-6">
+          Snapshot <span className="font-medium">{collection.name}</span> automatically so changes made in Postman between manual snapshots aren't missed.
+        </p>
+
+        {(error || !!loadError) && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded">
+            {error || describeError(loadError, 'Failed to load schedule', 'Collection')}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="animate-spin h-6 w-6 text-blue-500" />
+          </div>
+        ) : (
+          <form onSubmit={handleSave} className="space-y-4">
+            {schedule && <ScheduleStatus schedule={schedule} />}
+
+            <div>
+              <label htmlFor="schedule-frequency" className="block text-sm font-medium text-gray-700 mb-1">Frequency</label>
+              <select
+                id="schedule-frequency"
+                value={frequency}
+                onChange={(e) => setFrequency(e.target.value as ScheduleFrequency)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                {FREQUENCY_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {frequency === 'cron' && (
+              <div>
+                <label htmlFor="schedule-cron" className="block text-sm font-medium text-gray-700 mb-1">Cron expression (UTC)</label>
+                <input
+                  id="schedule-cron"
+                  type="text"
+                  value={cron}
+                  onChange={(e) => setCron(e.target.value)}
+                  placeholder="0 9 * * 1-5"
+                  className={`w-full px-3 py-2 border rounded-md text-sm font-mono ${cronError ? 'border-red-300' : 'border-gray-300'}`}
+                />
+                {cronError && <p className="mt-1 text-xs text-red-600">{cronError}</p>}
+              </div>
+            )}
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={enabled}
+                onChange={(e) => setEnabled(e.target.checked)}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+              />
+              Enabled
+            </label>
+
+            <p className="text-xs text-gray-500">{describeNextRun()}</p>
+
+            <div className="flex gap-3">
+              {schedule && (
+                <button
+                  type="button"
+                  onClick={handleRemove}
+                  disabled={isSaving}
+                  className="flex-1 px-4 py-2 border border-red-300 rounded-md text-sm font-medium text-red-600 hover:bg-red-50 disabled:opacity-50"
+                >
+                  Remove schedule
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={isSaving || !!cronError}
+                className="flex-1 flex items-center justify-center bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-md shadow transition-colors duration-200"
+              >
+                {isSaving && <Loader2 className="animate-spin h-4 w-4 mr-2" />}
+                <span>{isSaving ? 'Saving...' : 'Save schedule'}</span>
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleSnapshotsModal;
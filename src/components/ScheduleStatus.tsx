@@ -0,0 +1,39 @@
+import React from 'react';
+import { CheckCircle, Clock, PauseCircle, XCircle } from 'lucide-react';
+import type { SnapshotSchedule } from '../models';
+
+interface ScheduleStatusProps {
+  schedule: SnapshotSchedule;
+}
+
+const FREQUENCY_LABELS: Record<SnapshotSchedule['frequency'], string> = {
+  hourly: 'Every hour',
+  daily: 'Every day at 00:00 UTC',
+  weekly: 'Every Monday at 00:00 UTC',
+  cron: 'Custom',
+};
+
+export const describeFrequency = (schedule: SnapshotSchedule) =>
+  schedule.frequency === 'cron' ? `Cron: ${schedule.cron} (UTC)` : FREQUENCY_LABELS[schedule.frequency];
+
+const formatTime = (value: string) => new Date(value).toLocaleString();
+
+// Next-run and last-run summary shared by the schedule modal and the snapshots page
+const ScheduleStatus: React.FC<ScheduleStatusProps> = ({ schedule }) => (
+  <div className="p-3 bg-gray-50 border border-gray-200 rounded-md text-sm space-y-1">
+    <p className="text-gray-700 font-medium">{describeFrequency(schedule)}</p>
+    <p className="flex items-center gap-1 text-gray-600">
+      {schedule.enabled ? <Clock className="h-4 w-4" /> : <PauseCircle className="h-4 w-4" />}
+      {schedule.enabled && schedule.next_run_at ? `Next run: ${formatTime(schedule.next_run_at)}` : 'Paused'}
+    </p>
+    <p className="flex items-center gap-1 text-gray-600">
+      {schedule.last_run_status === 'success' && <CheckCircle className="h-4 w-4 text-green-500" />}
+      {schedule.last_run_status === 'failed' && <XCircle className="h-4 w-4 text-red-500" />}
+      {schedule.last_run_at
+        ? `Last run: ${formatTime(schedule.last_run_at)} (${schedule.last_run_status === 'failed' ? 'failed' : 'succeeded'})`
+        : 'Has not run yet'}
+    </p>
+  </div>
+);
+
+export default ScheduleStatus;
@@ -0,0 +1,17 @@
+import { useEffect } from 'react';
+import { subscribeAuthEvents } from '../services/authChannel';
+import { loginUrl } from '../services/returnTo';
+
+// Detail pages have no AuthProvider; this sends them to login as soon as
+// another tab logs out instead of waiting for their next request to 401.
+const SessionWatcher = () => {
+  useEffect(() => subscribeAuthEvents(event => {
+    if (event.type === 'logout' && window.location.pathname.startsWith('/app/')) {
+      window.location.href = loginUrl(window.location.pathname + window.location.search);
+    }
+  }), []);
+
+  return null;
+};
+
+export default SessionWatcher;
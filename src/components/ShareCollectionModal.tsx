@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Loader2, Share2, X } from 'lucide-react';
+import { workspaceService } from '../services/api';
+import { describeError } from '../services/apiError';
+import type { Collection, Workspace } from '../models';
+
+interface ShareCollectionModalProps {
+  collection: Collection;
+  workspaces: Workspace[];
+  onClose: () => void;
+  addNotification: (type: 'success' | 'error' | 'info' | 'warning', message: string) => void;
+}
+
+const ShareCollectionModal: React.FC<ShareCollectionModalProps> = ({ collection, workspaces, onClose, addNotification }) => {
+  const [workspaceId, setWorkspaceId] = useState(workspaces[0]?.id ?? '');
+  const [isSharing, setIsSharing] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleShare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSharing(true);
+    try {
+      await workspaceService.shareCollection(workspaceId, collection.id);
+      const name = workspaces.find(w => w.id === workspaceId)?.name;
+      addNotification('success', `Shared ${collection.name} with ${name}`);
+      onClose();
+    } catch (err) {
+      setError(describeError(err, 'Failed to share collection', 'Workspace'));
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 px-4">
+      <div className="bg-white p-8 rounded-lg shadow-lg max-w-md w-full">
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center gap-2">
+            <Share2 className="h-5 w-5 text-gray-700" />
+            <h2 className="text-xl font-bold">Share collection</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <span className="sr-only">Close</span>
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-6">
+          Members of the workspace will see <span className="font-medium">{collection.name}</span> and its snapshots.
+        </p>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded">
+            {error}
+          </div>
+        )}
+
+        {workspaces.length === 0 ? (
+          <p className="text-sm text-gray-500">Create or join a workspace under Settings first.</p>
+        ) : (
+          <form onSubmit={handleShare} className="space-y-4">
+            <div>
+              <label htmlFor="share-workspace" className="block text-sm font-medium text-gray-700 mb-1">Workspace</label>
+              <select
+                id="share-workspace"
+                value={workspaceId}
+                onChange={(e) => setWorkspaceId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                {workspaces.map(workspace => (
+                  <option key={workspace.id} value={workspace.id}>
+                    {workspace.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button
+              type="submit"
+              disabled={isSharing || !workspaceId}
+              className="w-full flex items-center justify-center bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-md shadow transition-colors duration-200"
+            >
+              {isSharing && <Loader2 className="animate-spin h-4 w-4 mr-2" />}
+              <span>{isSharing ? 'Sharing...' : 'Share'}</span>
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShareCollectionModal;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Loader2, Tag, X } from 'lucide-react';
+import { snapshotService } from '../services/api';
+import { describeError } from '../services/apiError';
+import { describeSnapshot, normalizeTags, type Snapshot } from '../models';
+
+interface SnapshotAnnotationModalProps {
+  snapshot: Snapshot;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const MAX_LABEL_LENGTH = 80;
+
+const SnapshotAnnotationModal: React.FC<SnapshotAnnotationModalProps> = ({ snapshot, onClose, onSaved }) => {
+  const [label, setLabel] = useState(snapshot.label ?? '');
+  const [note, setNote] = useState(snapshot.note ?? '');
+  const [tags, setTags] = useState(snapshot.tags.join(', '));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSaving(true);
+    try {
+      await snapshotService.annotateSnapshot(snapshot.collection_id, snapshot.id, {
+        label: label.trim() || null,
+        note: note.trim() || null,
+        tags: normalizeTags(tags),
+      });
+      onSaved();
+    } catch (err) {
+      setError(describeError(err, 'Failed to save snapshot details', 'Collection'));
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 px-4">
+      <div className="bg-white p-8 rounded-lg shadow-lg max-w-md w-full">
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center gap-2">
+            <Tag className="h-5 w-5 text-gray-700" />
+            <h2 className="text-xl font-bold">Edit snapshot details</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <span className="sr-only">Close</span>
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-6">
+          {describeSnapshot(snapshot.id, snapshot.label)} of <span className="font-medium">{snapshot.collection_name}</span>, taken{' '}
+          {new Date(snapshot.snapshot_time).toLocaleString()}.
+        </p>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded">{error}</div>
+        )}
+
+        <form onSubmit={handleSave} className="space-y-4">
+          <div>
+            <label htmlFor="snapshot-label" className="block text-sm font-medium text-gray-700 mb-1">Label</label>
+            <input
+              id="snapshot-label"
+              type="text"
+              value={label}
+              maxLength={MAX_LABEL_LENGTH}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="v2.3.0 release"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="snapshot-note" className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+            <textarea
+              id="snapshot-note"
+              value={note}
+              rows={3}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="What changed, or why this snapshot matters"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="snapshot-tags" className="block text-sm font-medium text-gray-700 mb-1">Tags</label>
+            <input
+              id="snapshot-tags"
+              type="text"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="release, breaking"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <p className="mt-1 text-xs text-gray-500">Separate tags with commas.</p>
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="w-full flex items-center justify-center bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-md shadow transition-colors duration-200"
+          >
+            {isSaving && <Loader2 className="animate-spin h-4 w-4 mr-2" />}
+            <span>{isSaving ? 'Saving...' : 'Save'}</span>
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotAnnotationModal;
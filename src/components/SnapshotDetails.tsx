@@ -1,46 +1,32 @@
 import React, { useEffect, useState } from 'react';
-import { snapshotService } from '../services/api';
+import { snapshotService, isAbortError } from '../services/api';
+import { describeError } from '../services/apiError';
 import { Loader2, XCircle, FileText, Database, Folder } from 'lucide-react';
-
-interface SnapshotDetail {
-  collection_id: string;
-  collection_name: string;
-  filters_applied: {
-    Fields: string;
-    Search: string;
-    ItemType: string;
-    Depth: string;
-  };
-  items: Array<{ name: string }>;
-  pagination: {
-    page: number;
-    page_size: number;
-    total_items: number;
-    total_pages: number;
-  };
-  snapshot_id: string;
-}
+import type { SnapshotItemsPage } from '../models';
 
 const SnapshotDetails: React.FC<{ snapshotId: string; collectionId: string, itemSize: string }> = ({ snapshotId, collectionId, itemSize }) => {
-  const [snapshot, setSnapshot] = useState<SnapshotDetail | null>(null);
+  const [snapshot, setSnapshot] = useState<SnapshotItemsPage | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
+    const controller = new AbortController();
     const fetchSnapshot = async () => {
       setLoading(true);
       setError(null);
       try {
         const parseItemSize =  parseInt(itemSize, 10);
-        const response = await snapshotService.getSnapshotFolders(snapshotId, collectionId, parseItemSize);
-        setSnapshot(response.data || response);
-      } catch (err: any) {
-        setError(err.message || 'Failed to load snapshot');
+        const response = await snapshotService.getSnapshotFolders(snapshotId, collectionId, parseItemSize, { signal: controller.signal });
+        setSnapshot(response);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        setError(describeError(err, 'Failed to load snapshot', 'Snapshot'));
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) setLoading(false);
       }
     };
     if (snapshotId) fetchSnapshot();
+    return () => controller.abort();
   }, [snapshotId, collectionId, itemSize]);
 
   return (
@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { collectionService } from '../services/api';
+import { describeError } from '../services/apiError';
 import { Loader2, XCircle, FileText, ArrowLeft, Hash, ListOrdered, Database, ClipboardCopy } from 'lucide-react';
 
 interface SnapshotDetail {
@@ -25,8 +26,8 @@ const SnapshotView: React.FC<{ snapshotId?: string }> = ({ snapshotId }) => {
       try {
         const response = await collectionService.getCollectionDetails(snapshotId!);
         setSnapshot(response.data || response);
-      } catch (err: any) {
-        setError(err.message || 'Failed to load snapshot');
+      } catch (err) {
+        setError(describeError(err, 'Failed to load snapshot', 'Snapshot'));
       } finally {
         setLoading(false);
       }
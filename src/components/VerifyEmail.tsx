@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle, Loader2, XCircle } from 'lucide-react';
+import { authService } from '../services/api';
+import { describeError } from '../services/apiError';
+import { LOGIN_PATH } from '../services/returnTo';
+
+// Landing page for the link in the verification email
+const VerifyEmail: React.FC<{ token: string }> = ({ token }) => {
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    authService.verifyEmail(token)
+      .then(() => setStatus('verified'))
+      .catch((err) => {
+        setError(describeError(err, 'This verification link is invalid or has expired', 'Verification link'));
+        setStatus('failed');
+      });
+  }, [token]);
+
+  return (
+    <div className="bg-white p-8 rounded-lg shadow-lg max-w-md w-full text-center space-y-4">
+      {status === 'verifying' && (
+        <>
+          <Loader2 className="mx-auto h-10 w-10 animate-spin text-gray-400" />
+          <p className="text-gray-700">Verifying your email...</p>
+        </>
+      )}
+      {status === 'verified' && (
+        <>
+          <CheckCircle className="mx-auto h-10 w-10 text-green-600" />
+          <p className="text-gray-700">Your email address is verified.</p>
+        </>
+      )}
+      {status === 'failed' && (
+        <>
+          <XCircle className="mx-auto h-10 w-10 text-red-500" />
+          <p className="text-gray-700">{error}</p>
+          <p className="text-sm text-gray-500">You can request a new link from Settings once signed in.</p>
+        </>
+      )}
+      {status !== 'verifying' && (
+        <a href={LOGIN_PATH} className="inline-block bg-black text-white py-2 px-4 rounded-md hover:bg-gray-900">
+          Continue to app
+        </a>
+      )}
+    </div>
+  );
+};
+
+export default VerifyEmail;
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { queryKeys, workspaceService } from '../services/api';
+import { describeError, isApiError } from '../services/apiError';
+import { useQuery } from '../hooks/useQuery';
+import type { Workspace } from '../models';
+
+interface WorkspaceSettingsProps {
+  workspaces: Workspace[];
+  activeWorkspace: Workspace | null;
+  onSwitch: (id: string | null) => void;
+  addNotification: (type: 'success' | 'error' | 'info' | 'warning', message: string) => void;
+}
+
+const inputClass = 'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+const buttonClass = 'bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-md shadow transition-colors duration-200 flex items-center';
+
+const WorkspaceSettings: React.FC<WorkspaceSettingsProps> = ({ workspaces, activeWorkspace, onSwitch, addNotification }) => {
+  const [newName, setNewName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [inviteCode, setInviteCode] = useState('');
+  const [isJoining, setIsJoining] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteError, setInviteError] = useState('');
+  const [isInviting, setIsInviting] = useState(false);
+
+  const workspaceId = activeWorkspace?.id ?? '';
+  const { data: members, isLoading: membersLoading, error: membersError } = useQuery(
+    queryKeys.workspaceMembers(workspaceId),
+    () => workspaceService.getMembers(workspaceId),
+    { enabled: !!activeWorkspace }
+  );
+  const isOwner = activeWorkspace?.role === 'owner';
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    try {
+      const workspace = await workspaceService.createWorkspace(newName.trim());
+      addNotification('success', `Created ${workspace.name}`);
+      setNewName('');
+      onSwitch(workspace.id);
+    } catch (err) {
+      addNotification('error', describeError(err, 'Failed to create workspace'));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsJoining(true);
+    try {
+      const workspace = await workspaceService.joinWorkspace(inviteCode.trim());
+      addNotification('success', `Joined ${workspace.name}`);
+      setInviteCode('');
+      onSwitch(workspace.id);
+    } catch (err) {
+      addNotification('error', describeError(err, 'Failed to join workspace', 'Invite code'));
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeWorkspace) return;
+    setInviteError('');
+    setIsInviting(true);
+    try {
+      await workspaceService.inviteMember(activeWorkspace.id, inviteEmail.trim());
+      addNotification('success', `Invitation sent to ${inviteEmail.trim()}`);
+      setInviteEmail('');
+    } catch (err) {
+      const fieldError = isApiError(err) ? err.fieldErrors.find(f => f.field === 'email')?.message : undefined;
+      setInviteError(fieldError ?? describeError(err, 'Failed to send invitation'));
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-8 mb-8">
+      <h2 className="text-xl font-semibold mb-6">Workspaces</h2>
+
+      {/* Active workspace */}
+      {activeWorkspace ? (
+        <div className="mb-8">
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <h3 className="text-lg font-medium">{activeWorkspace.name}</h3>
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700 capitalize">{activeWorkspace.role}</span>
+            {activeWorkspace.invite_code && (
+              <span className="text-sm text-gray-500">
+                Invite code: <span className="font-mono text-gray-900">{activeWorkspace.invite_code}</span>
+              </span>
+            )}
+          </div>
+
+          {membersLoading && <Loader2 className="h-5 w-5 animate-spin text-gray-400" />}
+          {!!membersError && (
+            <p className="text-sm text-red-600">{describeError(membersError, 'Failed to load members')}</p>
+          )}
+          {members && (
+            <ul className="divide-y divide-gray-100 border rounded-md border-gray-200 mb-4">
+              {members.map(member => (
+                <li key={member.email} className="px-4 py-2 flex items-center justify-between text-sm">
+                  <span className="text-gray-900">{member.email}</span>
+                  <span className="text-gray-500 capitalize">
+                    {member.status === 'invited' ? 'Invited' : member.role}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {isOwner && (
+            <form onSubmit={handleInvite} className="flex flex-wrap items-start gap-3">
+              <div className="flex-1 min-w-[200px]">
+                <label htmlFor="invite-email" className="sr-only">Email</label>
+                <input
+                  type="email"
+                  id="invite-email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="teammate@example.com"
+                  className={inputClass}
+                  required
+                />
+                {inviteError && <p className="mt-1 text-xs text-red-600">{inviteError}</p>}
+              </div>
+              <button type="submit" disabled={isInviting || !inviteEmail.trim()} className={`${buttonClass} mt-1`}>
+                {isInviting && <Loader2 className="animate-spin h-4 w-4 mr-2" />}
+                <span>{isInviting ? 'Inviting...' : 'Invite'}</span>
+              </button>
+            </form>
+          )}
+        </div>
+      ) : (
+        <p className="mb-8 text-sm text-gray-500">
+          {workspaces.length > 0
+            ? 'You are viewing your personal collections. Switch workspace from the header to see what your team shares.'
+            : 'Create a workspace or join one with an invite code to share collections with your team.'}
+        </p>
+      )}
+
+      <div className="border-t border-gray-200 pt-8 grid grid-cols-1 gap-8 md:grid-cols-2">
+        {/* Create */}
+        <form onSubmit={handleCreate}>
+          <h3 className="text-lg font-medium mb-3">Create Workspace</h3>
+          <label htmlFor="workspace-name" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input
+            type="text"
+            id="workspace-name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="e.g., Platform Team"
+            className={inputClass}
+            required
+          />
+          <button type="submit" disabled={isCreating || !newName.trim()} className={`${buttonClass} mt-4`}>
+            {isCreating && <Loader2 className="animate-spin h-4 w-4 mr-2" />}
+            <span>{isCreating ? 'Creating...' : 'Create'}</span>
+          </button>
+        </form>
+
+        {/* Join */}
+        <form onSubmit={handleJoin}>
+          <h3 className="text-lg font-medium mb-3">Join Workspace</h3>
+          <label htmlFor="invite-code" className="block text-sm font-medium text-gray-700 mb-1">Invite code</label>
+          <input
+            type="text"
+            id="invite-code"
+            value={inviteCode}
+            onChange={(e) => setInviteCode(e.target.value)}
+            className={`${inputClass} font-mono`}
+            required
+          />
+          <button type="submit" disabled={isJoining || !inviteCode.trim()} className={`${buttonClass} mt-4`}>
+            {isJoining && <Loader2 className="animate-spin h-4 w-4 mr-2" />}
+            <span>{isJoining ? 'Joining...' : 'Join'}</span>
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default WorkspaceSettings;
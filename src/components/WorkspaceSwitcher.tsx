@@ -0,0 +1,32 @@
+import React from 'react';
+import { Users } from 'lucide-react';
+import type { Workspace } from '../models';
+
+interface WorkspaceSwitcherProps {
+  workspaces: Workspace[];
+  activeId: string | null;
+  onSwitch: (id: string | null) => void;
+}
+
+const PERSONAL = '';
+
+const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({ workspaces, activeId, onSwitch }) => (
+  <div className="flex items-center gap-2">
+    <Users className="h-4 w-4 text-gray-500" />
+    <select
+      value={activeId ?? PERSONAL}
+      onChange={(e) => onSwitch(e.target.value || null)}
+      className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+      aria-label="Workspace"
+    >
+      <option value={PERSONAL}>Personal</option>
+      {workspaces.map(workspace => (
+        <option key={workspace.id} value={workspace.id}>
+          {workspace.name}
+        </option>
+      ))}
+    </select>
+  </div>
+);
+
+export default WorkspaceSwitcher;
@@ -0,0 +1,61 @@
+import {
+  PUBLIC_API_BASE_URL,
+  PUBLIC_API_MODE,
+  PUBLIC_LOCAL_API_BASE_URL,
+  PUBLIC_STAGING_API_BASE_URL,
+} from 'astro:env/client';
+
+export type ProfileId = 'prod' | 'staging' | 'local' | 'mock';
+
+export interface BackendProfile {
+  id: ProfileId;
+  label: string;
+  baseUrl: string;
+}
+
+export const DEFAULT_BASE_URL = 'https://integrator-api.verbgh.com/integrator/api/v1';
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:8080/integrator/api/v1';
+const MOCK_BASE_URL = '/api/mock';
+
+const MOCK_PROFILE: BackendProfile = { id: 'mock', label: 'Mock (offline)', baseUrl: MOCK_BASE_URL };
+
+export const isMockMode = PUBLIC_API_MODE === 'mock';
+
+const PROFILE_STORAGE_KEY = 'integrator_api_profile';
+
+// Tells the Astro proxy which backend to forward a request to
+export const PROFILE_HEADER = 'X-Backend-Profile';
+
+const isBrowser = typeof window !== 'undefined';
+
+export const getProfiles = (): BackendProfile[] => {
+  if (isMockMode) return [MOCK_PROFILE];
+
+  // The server's API_BASE_URL overrides this when proxying; it is secret and stays there
+  const profiles: BackendProfile[] = [
+    { id: 'prod', label: 'Production', baseUrl: PUBLIC_API_BASE_URL ?? DEFAULT_BASE_URL },
+  ];
+  if (PUBLIC_STAGING_API_BASE_URL) {
+    profiles.push({ id: 'staging', label: 'Staging', baseUrl: PUBLIC_STAGING_API_BASE_URL });
+  }
+  // Outside dev, a local backend only exists if the deployment names one;
+  // otherwise the proxy could be steered at the server's own localhost
+  const localBaseUrl = PUBLIC_LOCAL_API_BASE_URL ?? (import.meta.env.DEV ? DEFAULT_LOCAL_BASE_URL : undefined);
+  if (localBaseUrl) {
+    profiles.push({ id: 'local', label: 'Local', baseUrl: localBaseUrl });
+  }
+  if (import.meta.env.DEV) {
+    profiles.push(MOCK_PROFILE);
+  }
+  return profiles;
+};
+
+export const getActiveProfile = (): BackendProfile => {
+  const profiles = getProfiles();
+  const storedId = isBrowser ? localStorage.getItem(PROFILE_STORAGE_KEY) : null;
+  return profiles.find(p => p.id === storedId) ?? profiles[0];
+};
+
+export const setActiveProfile = (id: ProfileId) => {
+  localStorage.setItem(PROFILE_STORAGE_KEY, id);
+};
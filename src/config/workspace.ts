@@ -0,0 +1,19 @@
+// The workspace whose collections and snapshots the app shows. Absent means
+// the user's personal collections.
+const WORKSPACE_STORAGE_KEY = 'integrator_workspace';
+
+// Sent with every proxied request; the backend scopes collection reads to it
+export const WORKSPACE_HEADER = 'X-Workspace-Id';
+
+const isBrowser = typeof window !== 'undefined';
+
+export const getActiveWorkspaceId = (): string | null =>
+  isBrowser ? localStorage.getItem(WORKSPACE_STORAGE_KEY) : null;
+
+export const setActiveWorkspaceId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(WORKSPACE_STORAGE_KEY, id);
+  } else {
+    localStorage.removeItem(WORKSPACE_STORAGE_KEY);
+  }
+};
@@ -1,54 +1,184 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { authService } from '../services/api';
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback } from 'react';
+import { authService, setAuthRequiredHandler } from '../services/api';
+import { postAuthEvent, subscribeAuthEvents } from '../services/authChannel';
+import { invalidateQueries } from '../services/queryCache';
+import { getReturnTo } from '../services/returnTo';
+import { hasPermission, type Permission, type Role, type Session } from '../models';
+import ReauthModal from '../components/ReauthModal';
 
 interface AuthContextType {
   isAuthenticated: boolean;
   isLoading: boolean;
+  role: Role | null;
+  can: (permission: Permission) => boolean;
   login: (email: string, password: string) => Promise<void>;
   signup: (email: string, password: string) => Promise<void>;
-  logout: () => void;
+  loginWithProvider: (providerId: string) => void;
+  logout: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Refresh this long before the token lapses so in-flight work never sees a 401
+const REFRESH_LEAD_MS = 60_000;
+// Spread across open tabs so one refreshes first and broadcasts the result
+const REFRESH_JITTER_MS = 10_000;
+// setTimeout overflows past ~24.8 days and would fire immediately
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const LEGACY_TOKEN_KEY = 'user_auth_token';
+
+// The SSO callback lands on /app?sso=1; tell the other tabs, then tidy the URL
+const announceSsoLogin = (session: Session) => {
+  const url = new URL(window.location.href);
+  if (!url.searchParams.has('sso')) return;
+  url.searchParams.delete('sso');
+  window.history.replaceState(null, '', url);
+  if (session.authenticated) postAuthEvent({ type: 'login', session });
+};
+
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [showReauth, setShowReauth] = useState(false);
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+  const [role, setRole] = useState<Role | null>(null);
+  const reauthResolver = useRef<((ok: boolean) => void) | null>(null);
 
-  useEffect(() => {
-    // Check if user is authenticated on mount
-    const token = localStorage.getItem('user_auth_token');
-    setIsAuthenticated(!!token);
-    setIsLoading(false);
+  const applySession = useCallback((session: Session) => {
+    setExpiresAt(session.expiresAt);
+    setRole(session.role);
+    setIsAuthenticated(session.authenticated);
   }, []);
 
-  const login = async (email: string, password: string) => {
+  const tryRefresh = useCallback(async () => {
     try {
-      await authService.login(email, password);
-      setIsAuthenticated(true);
-    } catch (error) {
-      throw error;
+      const session = await authService.refresh();
+      applySession(session);
+      postAuthEvent({ type: 'refresh', session });
+      return true;
+    } catch {
+      return false;
     }
+  }, [applySession]);
+
+  const logout = useCallback(async () => {
+    setExpiresAt(null);
+    setRole(null);
+    setIsAuthenticated(false);
+    await authService.logout().catch(() => undefined);
+    postAuthEvent({ type: 'logout' });
+  }, []);
+
+  const closeReauth = (ok: boolean) => {
+    setShowReauth(false);
+    reauthResolver.current?.(ok);
+    reauthResolver.current = null;
   };
 
-  const signup = async (email: string, password: string) => {
-    try {
-      await authService.signup(email, password);
-      // After signup, automatically log in the user
-      await login(email, password);
-    } catch (error) {
-      throw error;
+  // Another tab logged in, refreshed or logged out: follow it, including
+  // settling any re-login prompt this tab is showing
+  useEffect(() => subscribeAuthEvents(event => {
+    if (event.type === 'refresh') {
+      applySession(event.session);
+      closeReauth(true);
+      return;
+    }
+    // A login may be a different user, so nothing cached carries over
+    invalidateQueries([]);
+    if (event.type === 'login') {
+      applySession(event.session);
+      closeReauth(true);
+    } else {
+      setExpiresAt(null);
+      setRole(null);
+      setIsAuthenticated(false);
+      closeReauth(false);
     }
+  }), [applySession]);
+
+  useEffect(() => {
+    // Tokens used to live in localStorage; drop any left behind
+    localStorage.removeItem(LEGACY_TOKEN_KEY);
+
+    // An expired session only counts if it can still be refreshed
+    const restore = async () => {
+      try {
+        const session = await authService.getSession();
+        const expired = session.expiresAt !== null && session.expiresAt <= Date.now();
+        if (session.authenticated && expired && !(await tryRefresh())) {
+          await logout();
+        } else if (!expired) {
+          applySession(session);
+          announceSsoLogin(session);
+        }
+      } catch {
+        setIsAuthenticated(false);
+      }
+      setIsLoading(false);
+    };
+    restore();
+  }, [tryRefresh, logout, applySession]);
+
+  // Schedule a silent refresh ahead of expiry; fall back to the re-login modal
+  // only once the session has actually lapsed.
+  useEffect(() => {
+    if (expiresAt === null) return;
+
+    const timer = setTimeout(async () => {
+      if (!(await tryRefresh()) && expiresAt <= Date.now()) {
+        setShowReauth(true);
+      }
+    }, Math.min(MAX_TIMER_MS, Math.max(0, expiresAt - REFRESH_LEAD_MS - Math.random() * REFRESH_JITTER_MS - Date.now())));
+    return () => clearTimeout(timer);
+  }, [expiresAt, tryRefresh]);
+
+  // Requests that hit a 401 wait here until the session is restored
+  useEffect(() => {
+    setAuthRequiredHandler(async () => {
+      if (await tryRefresh()) return true;
+      return new Promise<boolean>(resolve => {
+        reauthResolver.current = resolve;
+        setShowReauth(true);
+      });
+    });
+    return () => setAuthRequiredHandler(undefined);
+  }, [tryRefresh]);
+
+  const finishReauth = (session: Session | null) => {
+    if (session) {
+      applySession(session);
+      postAuthEvent({ type: 'login', session });
+    } else {
+      logout();
+    }
+    closeReauth(session !== null);
   };
 
-  const logout = () => {
-    authService.logout();
-    setIsAuthenticated(false);
+  const login = async (email: string, password: string) => {
+    const session = await authService.login(email, password);
+    applySession(session);
+    postAuthEvent({ type: 'login', session });
+  };
+
+  const can = (permission: Permission) => hasPermission(role, permission);
+
+  const loginWithProvider = (providerId: string) => {
+    authService.startOAuthLogin(providerId, getReturnTo());
+  };
+
+  const signup = async (email: string, password: string) => {
+    await authService.signup(email, password);
+    // After signup, automatically log in the user
+    await login(email, password);
   };
 
   return (
-    <AuthContext.Provider value={{ isAuthenticated, isLoading, login, signup, logout }}>
+    <AuthContext.Provider value={{ isAuthenticated, isLoading, role, can, login, signup, loginWithProvider, logout }}>
       {children}
+      {showReauth && (
+        <ReauthModal onSuccess={finishReauth} onCancel={() => finishReauth(null)} />
+      )}
     </AuthContext.Provider>
   );
 };
@@ -59,4 +189,24 @@ export const useAuth = () => {
     throw new Error('useAuth must be used within an AuthProvider');
   }
   return context;
-}; 
\ No newline at end of file
+};
+
+// Permission checks for islands that may render outside an AuthProvider (the
+// /app detail pages); those ask the server for the session themselves.
+export const usePermissions = () => {
+  const context = useContext(AuthContext);
+  const [role, setRole] = useState<Role | null>(null);
+
+  useEffect(() => {
+    if (context) return;
+    authService.getSession()
+      .then(session => setRole(session.role))
+      .catch(() => setRole(null));
+  }, [context]);
+
+  const effectiveRole = context ? context.role : role;
+  return {
+    role: effectiveRole,
+    can: (permission: Permission) => hasPermission(effectiveRole, permission),
+  };
+};
@@ -0,0 +1,17 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+// Hands out an AbortSignal per request and aborts the previous one, so only
+// the most recent request in a stream can still resolve. Everything is
+// aborted when the component unmounts.
+export function useLatestRequest() {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return useCallback(() => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller.signal;
+  }, []);
+}
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isAbortError } from '../services/api';
+import { getQueryData, subscribeQuery, type QueryKey } from '../services/queryCache';
+import { useLatestRequest } from './useLatestRequest';
+
+interface UseQueryOptions {
+  enabled?: boolean;
+}
+
+// Reads a cached service call: shows whatever the cache holds for the key
+// straight away, refetches on key change or invalidation, and picks up
+// background revalidations.
+export function useQuery<T>(
+  key: QueryKey,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  { enabled = true }: UseQueryOptions = {}
+) {
+  const hash = JSON.stringify(key);
+  const [data, setData] = useState<T | undefined>(() => getQueryData<T>(key));
+  const [error, setError] = useState<unknown>(null);
+  const [isFetching, setIsFetching] = useState(false);
+  const nextRequest = useLatestRequest();
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const refetch = useCallback(async () => {
+    const signal = nextRequest();
+    setIsFetching(true);
+    try {
+      const result = await fetcherRef.current(signal);
+      setData(result);
+      setError(null);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError(err);
+    } finally {
+      if (!signal.aborted) setIsFetching(false);
+    }
+  }, [nextRequest]);
+
+  useEffect(() => {
+    setData(getQueryData<T>(key));
+    setError(null);
+    if (!enabled) return;
+
+    refetch();
+    return subscribeQuery(key, event => {
+      if (event === 'invalidated') {
+        refetch();
+      } else {
+        setData(getQueryData<T>(key));
+      }
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hash, enabled, refetch]);
+
+  return { data, error, isFetching, isLoading: isFetching && data === undefined, refetch };
+}
@@ -0,0 +1,20 @@
+import { useCallback } from 'react';
+import { queryKeys, snapshotService } from '../services/api';
+import { describeSnapshot } from '../models';
+import { useQuery } from './useQuery';
+
+// Names snapshots by their label where one has been set, for views that only
+// have snapshot ids. Falls back to "Snapshot 42" while labels load or fail.
+export function useSnapshotLabels(collectionId: string) {
+  const { data: annotations } = useQuery(
+    queryKeys.snapshotAnnotations(collectionId),
+    signal => snapshotService.getAnnotations(collectionId, { signal }),
+    { enabled: !!collectionId }
+  );
+
+  return useCallback(
+    (id: number, isLatest = false) =>
+      describeSnapshot(id, annotations?.find(a => a.snapshot_id === id)?.label, isLatest),
+    [annotations]
+  );
+}
@@ -0,0 +1,29 @@
+import { defineMiddleware } from 'astro:middleware';
+import { SESSION_COOKIE, isTokenExpired } from './server/token';
+import { getSessionRole } from './server/session';
+import { loginUrl } from './services/returnTo';
+import { hasPermission, type Permission } from './models';
+
+// Everything under /app except /app itself, which hosts the login form
+const PROTECTED_PATH = /^\/app\/.+/;
+
+// Pages that need more than a valid session
+const PAGE_PERMISSIONS: [RegExp, Permission][] = [
+  [/^\/app\/admin(\/|$)/, 'admin:access'],
+];
+
+export const onRequest = defineMiddleware((context, next) => {
+  const { pathname, search } = context.url;
+  if (!PROTECTED_PATH.test(pathname)) return next();
+
+  const token = context.cookies.get(SESSION_COOKIE)?.value;
+  if (!token || isTokenExpired(token)) {
+    return context.redirect(loginUrl(pathname + search));
+  }
+
+  const required = PAGE_PERMISSIONS.find(([pattern]) => pattern.test(pathname))?.[1];
+  if (required && !hasPermission(getSessionRole(context.cookies), required)) {
+    return context.rewrite('/403');
+  }
+  return next();
+});
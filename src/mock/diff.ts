@@ -0,0 +1,202 @@
+import type { DiffDetail, ImpactAnalysis, ImpactItem, ResourceType, SnapshotItem, TreeNode } from '../models';
+import type { FixtureCollection, FixtureSnapshot } from './fixtures';
+
+interface Endpoint {
+  segments: string[];
+  item: SnapshotItem;
+}
+
+interface Field {
+  label: string;
+  resource: ResourceType;
+  read: (item: SnapshotItem) => unknown;
+}
+
+// Fields compared between two versions of the same endpoint
+const FIELDS: Field[] = [
+  { label: 'method', resource: 'request', read: i => i.request?.method },
+  { label: 'url', resource: 'request', read: i => i.request?.url?.raw },
+  { label: 'auth', resource: 'request', read: i => i.request?.auth?.type },
+  { label: 'body', resource: 'request', read: i => i.request?.body?.raw },
+  { label: 'description', resource: 'request', read: i => i.request?.description },
+  { label: 'status', resource: 'response', read: i => i.response?.[0]?.code },
+  { label: 'example', resource: 'response', read: i => i.response?.[0]?.body },
+];
+
+const flatten = (items: SnapshotItem[], parents: string[] = []): Endpoint[] =>
+  items.flatMap(item =>
+    item.item
+      ? flatten(item.item, [...parents, item.name])
+      : item.request
+        ? [{ segments: [...parents, item.name], item }]
+        : []
+  );
+
+const keyOf = (segments: string[]) => segments.join('/');
+
+export const diffSnapshots = (
+  collection: FixtureCollection,
+  oldSnapshot: FixtureSnapshot | undefined,
+  newSnapshot: FixtureSnapshot
+): DiffDetail[] => {
+  const before = new Map(flatten(oldSnapshot?.items ?? []).map(e => [keyOf(e.segments), e]));
+  const after = new Map(flatten(newSnapshot.items).map(e => [keyOf(e.segments), e]));
+  const changes: DiffDetail[] = [];
+
+  const push = (change: Omit<DiffDetail, 'id' | 'collection_id' | 'old_snapshot_id' | 'new_snapshot_id' | 'created_at'>) => {
+    changes.push({
+      id: newSnapshot.id * 1000 + changes.length + 1,
+      collection_id: collection.id,
+      old_snapshot_id: oldSnapshot?.id ?? 0,
+      new_snapshot_id: newSnapshot.id,
+      created_at: newSnapshot.snapshot_time,
+      ...change,
+    });
+  };
+
+  for (const [key, endpoint] of after) {
+    const previous = before.get(key);
+    if (!previous) {
+      push({
+        change_type: 'added',
+        path: `item.${key}`,
+        human_path: endpoint.segments.join(' › '),
+        path_segments: endpoint.segments,
+        endpoint_name: endpoint.item.name,
+        resource_type: 'endpoint',
+        modification: JSON.stringify({ method: endpoint.item.request?.method }),
+        old_value: null,
+        new_value: endpoint.item.request,
+      });
+      continue;
+    }
+    for (const field of FIELDS) {
+      const oldValue = field.read(previous.item);
+      const newValue = field.read(endpoint.item);
+      if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+      const changeType = oldValue === undefined ? 'added' : newValue === undefined ? 'deleted' : 'modified';
+      push({
+        change_type: changeType,
+        path: `item.${key}.${field.resource}.${field.label}`,
+        human_path: [...endpoint.segments, `${field.resource} ${field.label}`].join(' › '),
+        path_segments: [...endpoint.segments, field.resource, field.label],
+        endpoint_name: endpoint.item.name,
+        resource_type: field.resource,
+        modification: JSON.stringify({ field: field.label, from: oldValue ?? null, to: newValue ?? null }),
+        old_value: oldValue ?? null,
+        new_value: newValue ?? null,
+      });
+    }
+  }
+
+  for (const [key, endpoint] of before) {
+    if (after.has(key)) continue;
+    push({
+      change_type: 'deleted',
+      path: `item.${key}`,
+      human_path: endpoint.segments.join(' › '),
+      path_segments: endpoint.segments,
+      endpoint_name: endpoint.item.name,
+      resource_type: 'endpoint',
+      modification: JSON.stringify({ method: endpoint.item.request?.method }),
+      old_value: endpoint.item.request,
+      new_value: null,
+    });
+  }
+
+  return changes;
+};
+
+const classify = (change: DiffDetail): ImpactItem => {
+  const field = change.path_segments[change.path_segments.length - 1];
+  if (change.resource_type === 'endpoint' && change.change_type === 'deleted') {
+    return {
+      change,
+      severity: 'breaking',
+      impact: `Endpoint "${change.endpoint_name}" was removed; existing clients will fail.`,
+      suggestions: ['Deprecate the endpoint before removing it', 'Announce the removal to API consumers'],
+    };
+  }
+  if (field === 'method' || field === 'url' || field === 'status') {
+    return {
+      change,
+      severity: 'breaking',
+      impact: `The ${field} of "${change.endpoint_name}" changed; clients calling the old ${field} will break.`,
+      suggestions: ['Keep the previous route available during a migration window'],
+    };
+  }
+  if (field === 'auth') {
+    return {
+      change,
+      severity: 'security',
+      impact: `Authentication for "${change.endpoint_name}" was ${change.change_type}.`,
+      suggestions: ['Confirm the endpoint is meant to be reachable with this auth scheme'],
+    };
+  }
+  if (field === 'body' || field === 'example') {
+    return {
+      change,
+      severity: 'data',
+      impact: `The ${change.resource_type} payload of "${change.endpoint_name}" changed shape.`,
+      suggestions: ['Verify client models against the new payload'],
+    };
+  }
+  return { change, severity: 'low', impact: `Cosmetic change to "${change.endpoint_name}".` };
+};
+
+export const analyzeImpact = (collectionId: string, snapshotId: number, changes: DiffDetail[]): ImpactAnalysis => {
+  const items = changes.map(classify);
+  const breaking = items.filter(i => i.severity === 'breaking');
+  const security = items.filter(i => i.severity === 'security');
+  const data = items.filter(i => i.severity === 'data');
+  const cosmetic = items.filter(i => i.severity === 'low');
+  const riskScore = items.length === 0
+    ? 0
+    : Math.min(100, (breaking.length * 40 + security.length * 25 + data.length * 10 + cosmetic.length) / items.length * 2);
+
+  return {
+    collection_id: collectionId,
+    snapshot_id: snapshotId,
+    breaking_changes: breaking,
+    security_changes: security,
+    data_changes: data,
+    cosmetic_changes: cosmetic,
+    summary: {
+      total_breaking: breaking.length,
+      total_security: security.length,
+      total_data: data.length,
+      total_cosmetic: cosmetic.length,
+      risk_score: riskScore,
+      recommendation: breaking.length > 0
+        ? 'Breaking changes detected. Version the API or coordinate the rollout with consumers.'
+        : security.length > 0
+          ? 'Review the security-related changes before releasing.'
+          : 'Changes are backwards compatible.',
+    },
+  };
+};
+
+export const buildHierarchy = (name: string, items: SnapshotItem[], changes: DiffDetail[]): TreeNode => {
+  const countFor = (segments: string[]) =>
+    changes.filter(c => segments.every((s, i) => c.path_segments[i] === s)).length;
+
+  const toNode = (item: SnapshotItem, parents: string[]): TreeNode => {
+    const segments = [...parents, item.name];
+    const count = countFor(segments);
+    const change = changes.find(c => keyOf(c.path_segments) === keyOf(segments));
+    return {
+      name: item.name,
+      type: item.item ? 'folder' : 'request',
+      change_count: count || undefined,
+      change_type: change?.change_type,
+      children: item.item?.map(child => toNode(child, segments)),
+    };
+  };
+
+  return {
+    name,
+    type: 'folder',
+    change_count: changes.length || undefined,
+    children: items.map(item => toNode(item, [])),
+  };
+};
@@ -0,0 +1,290 @@
+import type { ApiKey, ScheduleRun, SnapshotItem, SnapshotSchedule, WorkspaceMember } from '../models';
+
+export interface FixtureSnapshot {
+  id: number;
+  snapshot_time: string;
+  items: SnapshotItem[];
+  label?: string;
+  note?: string;
+  tags?: string[];
+}
+
+export interface FixtureCollection {
+  id: string;
+  name: string;
+  description: string;
+  user_id: string;
+  // Oldest first
+  snapshots: FixtureSnapshot[];
+}
+
+export const MOCK_USER_ID = 'mock-user';
+
+const jsonResponse = (code: number, status: string, body: unknown) => ({
+  code,
+  status,
+  body: JSON.stringify(body, null, 2),
+  header: [
+    { key: 'Content-Type', value: 'application/json' },
+    { key: 'RateLimit-Policy', value: '100;w=60' },
+    { key: 'RateLimit-Limit', value: '100' },
+    { key: 'RateLimit-Remaining', value: '99' },
+    { key: 'RateLimit-Reset', value: '60' },
+  ],
+});
+
+const request = (
+  name: string,
+  method: string,
+  path: string,
+  options: { description?: string; body?: unknown; bearer?: boolean; response?: ReturnType<typeof jsonResponse> } = {}
+): SnapshotItem => {
+  const segments = path.split('/').filter(Boolean);
+  return {
+    id: `${method.toLowerCase()}-${segments.join('-').replace(/:/g, '')}`,
+    name,
+    request: {
+      method,
+      description: options.description,
+      auth: options.bearer ? { type: 'bearer', bearer: [{ key: 'token', value: '{{token}}', type: 'string' }] } : undefined,
+      url: {
+        raw: `{{baseUrl}}/${segments.join('/')}`,
+        host: ['{{baseUrl}}'],
+        path: segments,
+        variable: segments
+          .filter(s => s.startsWith(':'))
+          .map(s => ({ key: s.slice(1), value: '', description: `The ${s.slice(1)} path parameter` })),
+      },
+      body: options.body !== undefined ? { mode: 'raw', raw: JSON.stringify(options.body, null, 2) } : undefined,
+    },
+    response: options.response ? [options.response] : [],
+  };
+};
+
+const paymentsV1: SnapshotItem[] = [
+  {
+    id: 'folder-payments',
+    name: 'Payments',
+    item: [
+      request('List payments', 'GET', '/payments', {
+        description: 'Returns the payments for the current merchant.',
+        bearer: true,
+        response: jsonResponse(200, 'OK', { data: [{ id: 'pay_1', amount: 1200, currency: 'GHS' }] }),
+      }),
+      request('Create payment', 'POST', '/payments', {
+        description: 'Creates a payment.',
+        bearer: true,
+        body: { amount: 1200, currency: 'GHS' },
+        response: jsonResponse(201, 'Created', { id: 'pay_1', status: 'pending' }),
+      }),
+      request('Get payment', 'GET', '/payments/:paymentId', {
+        bearer: true,
+        response: jsonResponse(200, 'OK', { id: 'pay_1', amount: 1200, currency: 'GHS', status: 'pending' }),
+      }),
+    ],
+  },
+  {
+    id: 'folder-refunds',
+    name: 'Refunds',
+    item: [
+      request('Refund payment', 'POST', '/payments/:paymentId/refund', {
+        bearer: true,
+        body: { amount: 1200 },
+        response: jsonResponse(200, 'OK', { id: 'ref_1', status: 'processing' }),
+      }),
+    ],
+  },
+];
+
+const paymentsV2: SnapshotItem[] = [
+  {
+    id: 'folder-payments',
+    name: 'Payments',
+    item: [
+      request('List payments', 'GET', '/payments', {
+        description: 'Returns the payments for the current merchant, newest first.',
+        bearer: true,
+        response: jsonResponse(200, 'OK', { data: [{ id: 'pay_1', amount: 1200, currency: 'GHS' }], next_cursor: null }),
+      }),
+      request('Create payment', 'POST', '/payments', {
+        description: 'Creates a payment.',
+        bearer: true,
+        body: { amount: 1200, currency: 'GHS', reference: 'order-1' },
+        response: jsonResponse(201, 'Created', { id: 'pay_1', status: 'pending' }),
+      }),
+      request('Get payment', 'GET', '/payments/:paymentId', {
+        bearer: true,
+        response: jsonResponse(200, 'OK', { id: 'pay_1', amount: 1200, currency: 'GHS', status: 'pending' }),
+      }),
+      request('Cancel payment', 'DELETE', '/payments/:paymentId', {
+        bearer: true,
+        response: jsonResponse(200, 'OK', { id: 'pay_1', status: 'cancelled' }),
+      }),
+    ],
+  },
+  {
+    id: 'folder-refunds',
+    name: 'Refunds',
+    item: [
+      request('Refund payment', 'POST', '/payments/:paymentId/refunds', {
+        bearer: true,
+        body: { amount: 1200 },
+        response: jsonResponse(200, 'OK', { id: 'ref_1', status: 'processing' }),
+      }),
+    ],
+  },
+];
+
+const paymentsV3: SnapshotItem[] = [
+  {
+    id: 'folder-payments',
+    name: 'Payments',
+    item: [
+      request('List payments', 'GET', '/payments', {
+        description: 'Returns the payments for the current merchant, newest first.',
+        bearer: true,
+        response: jsonResponse(200, 'OK', { data: [{ id: 'pay_1', amount: 1200, currency: 'GHS' }], next_cursor: null }),
+      }),
+      request('Create payment', 'POST', '/payments', {
+        description: 'Creates a payment.',
+        body: { amount: 1200, currency: 'GHS', reference: 'order-1' },
+        response: jsonResponse(201, 'Created', { id: 'pay_1', status: 'pending' }),
+      }),
+      request('Cancel payment', 'DELETE', '/payments/:paymentId', {
+        bearer: true,
+        response: jsonResponse(200, 'OK', { id: 'pay_1', status: 'cancelled' }),
+      }),
+    ],
+  },
+  {
+    id: 'folder-refunds',
+    name: 'Refunds',
+    item: [
+      request('Refund payment', 'POST', '/payments/:paymentId/refunds', {
+        bearer: true,
+        body: { amount: 1200, reason: 'requested_by_customer' },
+        response: jsonResponse(200, 'OK', { id: 'ref_1', status: 'processing' }),
+      }),
+    ],
+  },
+];
+
+const authV1: SnapshotItem[] = [
+  request('Login', 'POST', '/auth/login', {
+    description: 'Exchanges credentials for a bearer token.',
+    body: { email: 'user@example.com', password: '********' },
+    response: jsonResponse(200, 'OK', { token: '<jwt>' }),
+  }),
+  request('Signup', 'POST', '/signup', {
+    body: { email: 'user@example.com', password: '********' },
+    response: jsonResponse(201, 'Created', { message: 'account created' }),
+  }),
+];
+
+export const fixtureCollections: FixtureCollection[] = [
+  {
+    id: '7f3c1d2e-payments-0000-0000-000000000001',
+    name: 'Payments API',
+    description: 'Merchant payments and refunds',
+    user_id: MOCK_USER_ID,
+    snapshots: [
+      {
+        id: 101,
+        snapshot_time: '2026-09-01T09:00:00Z',
+        items: paymentsV1,
+        label: 'v1.0 release',
+        note: 'First public release of the payments API.',
+        tags: ['release'],
+      },
+      { id: 102, snapshot_time: '2026-09-15T09:00:00Z', items: paymentsV2 },
+      { id: 103, snapshot_time: '2026-10-01T09:00:00Z', items: paymentsV3, label: 'v1.2 release', tags: ['release', 'refunds'] },
+    ],
+  },
+  {
+    id: '2b9e8a41-auth-0000-0000-000000000002',
+    name: 'Auth Service',
+    description: 'Login and signup endpoints',
+    user_id: MOCK_USER_ID,
+    snapshots: [{ id: 201, snapshot_time: '2026-09-20T12:30:00Z', items: authV1 }],
+  },
+];
+
+// Collections that exist in the mock "Postman account" but have not been imported yet
+export const fixturePostmanOnly: FixtureCollection[] = [
+  {
+    id: 'c0ffee00-notify-0000-0000-000000000003',
+    name: 'Notifications API',
+    description: 'Email and SMS delivery',
+    user_id: MOCK_USER_ID,
+    snapshots: [
+      {
+        id: 0,
+        snapshot_time: '2026-10-01T00:00:00Z',
+        items: [
+          request('Send email', 'POST', '/notifications/email', { bearer: true, body: { to: 'a@example.com' } }),
+          request('Send SMS', 'POST', '/notifications/sms', { bearer: true, body: { to: '+233200000000' } }),
+        ],
+      },
+    ],
+  },
+];
+
+export interface FixtureWorkspace {
+  id: string;
+  name: string;
+  invite_code: string;
+  members: WorkspaceMember[];
+  collection_ids: string[];
+}
+
+// Join with invite code PLATFORM-TEAM when signed in as anyone else
+export const fixtureWorkspaces: FixtureWorkspace[] = [
+  {
+    id: 'ws-platform',
+    name: 'Platform Team',
+    invite_code: 'PLATFORM-TEAM',
+    members: [
+      { email: 'dev@integrator.local', role: 'owner', status: 'active' },
+      { email: 'ama@integrator.local', role: 'member', status: 'active' },
+      { email: 'kofi@integrator.local', role: 'member', status: 'invited' },
+    ],
+    collection_ids: ['7f3c1d2e-payments-0000-0000-000000000001'],
+  },
+];
+
+// Stored in full, as the backend would; responses only carry the last four characters
+export interface FixtureApiKey extends Omit<ApiKey, 'key_last4'> {
+  key: string;
+}
+
+export const fixtureApiKeys: FixtureApiKey[] = [
+  { id: 'key-work', name: 'Work', key: 'PMAK-mock0000000000000000000000000001', default: true, last_used_at: '2026-10-01T09:00:00Z', postman_user: 'dev', postman_team: 'Integrator' },
+  { id: 'key-personal', name: 'Personal', key: 'PMAK-mock0000000000000000000000000002', default: false, last_used_at: null, postman_user: 'dev', postman_team: null },
+];
+
+export interface FixtureSchedule {
+  schedule: SnapshotSchedule;
+  // Oldest first
+  runs: ScheduleRun[];
+}
+
+// Payments API is snapshotted on the 1st and 15th; the latest run hit Postman's rate limit
+export const fixtureSchedules: FixtureSchedule[] = [
+  {
+    schedule: {
+      collection_id: '7f3c1d2e-payments-0000-0000-000000000001',
+      enabled: true,
+      frequency: 'cron',
+      cron: '0 9 1,15 * *',
+      next_run_at: null,
+      last_run_at: '2026-10-15T09:00:00Z',
+      last_run_status: 'failed',
+    },
+    runs: [
+      { id: 'run-1', started_at: '2026-09-01T09:00:00Z', status: 'success', snapshot_id: 101, error: null },
+      { id: 'run-2', started_at: '2026-09-15T09:00:00Z', status: 'success', snapshot_id: 102, error: null },
+      { id: 'run-3', started_at: '2026-10-01T09:00:00Z', status: 'success', snapshot_id: 103, error: null },
+      { id: 'run-4', started_at: '2026-10-15T09:00:00Z', status: 'failed', snapshot_id: null, error: 'Postman API rate limit exceeded' },
+    ],
+  },
+];
@@ -0,0 +1,745 @@
+import type { ApiKey, Collection, RecentChange, RetentionInput, RetentionPolicy, ScheduleRun, Snapshot, SnapshotAnnotation, SnapshotItem, SnapshotSchedule } from '../models';
+import { normalizeTags } from '../models/collection';
+import { cronProblem, nextCronRun, scheduleCron } from '../models/schedule';
+import { retentionProblem, snapshotsToPrune } from '../models/retention';
+import { analyzeImpact, buildHierarchy, diffSnapshots } from './diff';
+import {
+  MOCK_USER_ID,
+  fixtureApiKeys,
+  fixtureCollections,
+  fixturePostmanOnly,
+  fixtureSchedules,
+  fixtureWorkspaces,
+  type FixtureApiKey,
+  type FixtureCollection,
+  type FixtureSnapshot,
+  type FixtureWorkspace,
+} from './fixtures';
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: any;
+  // Bearer token from the Authorization header, if any
+  token?: string;
+  // Active workspace from the X-Workspace-Id header; absent for personal collections
+  workspaceId?: string;
+}
+
+export interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+type Handler = (request: MockRequest, params: string[]) => MockResponse;
+
+// In-memory state, seeded from the fixtures and reset when the dev server restarts
+const state = {
+  collections: structuredClone(fixtureCollections),
+  postmanOnly: structuredClone(fixturePostmanOnly),
+  apiKeys: structuredClone(fixtureApiKeys),
+  workspaces: structuredClone(fixtureWorkspaces),
+  schedules: structuredClone(fixtureSchedules),
+  retention: [] as RetentionPolicy[],
+  account: { email: 'dev@integrator.local', email_verified: false },
+  nextSnapshotId: 1000,
+  nextKeyId: 1,
+  nextRunId: 100,
+};
+
+const ok = (body: unknown): MockResponse => ({ status: 200, body });
+const notFound = (message: string): MockResponse => ({ status: 404, body: { message } });
+const badRequest = (message: string): MockResponse => ({ status: 400, body: { message } });
+
+const base64url = (value: string) =>
+  btoa(value).replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+
+// Unsigned JWT so the client can read the expiry like it would a real token
+// viewer@... and editor@... sign in with that role; everyone else is an admin
+const roleFor = (email: string) => {
+  const prefix = email.split('@')[0];
+  return prefix === 'viewer' || prefix === 'editor' ? prefix : 'admin';
+};
+
+const issueToken = (email: string) => {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({ sub: MOCK_USER_ID, email, role: roleFor(email), iat: now, exp: now + 60 * 60 }));
+  return `${header}.${payload}.mock`;
+};
+
+const readToken = (token: string) => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(payload)) as { email?: string };
+  } catch {
+    return undefined;
+  }
+};
+
+// Who's asking; the mock has one account, so tokens without an email map to it
+const emailOf = (token?: string) => (token && readToken(token)?.email) || state.account.email;
+
+const memberOf = (workspace: FixtureWorkspace, email: string) =>
+  workspace.members.find(m => m.email === email && m.status === 'active');
+
+const findWorkspace = (id: string, token?: string) => {
+  const workspace = state.workspaces.find(w => w.id === id);
+  return workspace && memberOf(workspace, emailOf(token)) ? workspace : undefined;
+};
+
+const toWorkspace = (workspace: FixtureWorkspace, email: string) => {
+  const role = memberOf(workspace, email)?.role ?? 'member';
+  return {
+    id: workspace.id,
+    name: workspace.name,
+    role,
+    member_count: workspace.members.length,
+    invite_code: role === 'owner' ? workspace.invite_code : undefined,
+  };
+};
+
+// Collections visible in the active workspace, or the personal ones without it
+const scopedCollections = ({ workspaceId, token }: MockRequest) => {
+  if (!workspaceId) return state.collections;
+  const workspace = findWorkspace(workspaceId, token);
+  return workspace ? state.collections.filter(c => workspace.collection_ids.includes(c.id)) : [];
+};
+
+// Stands in for the backend asking Postman's /me who owns the key. Keys
+// containing "revoked" are rejected so the failure path can be exercised.
+const checkPostmanKey = (apiKey: string, token?: string): MockResponse | { postman_user: string; postman_team: string | null } => {
+  if (!/^PMAK-\S+$/.test(apiKey) || apiKey.includes('revoked')) {
+    return { status: 400, body: { code: 'invalid_api_key', message: 'Postman rejected this API key. Check it was copied in full and has not been revoked.' } };
+  }
+  return { postman_user: emailOf(token).split('@')[0], postman_team: apiKey.includes('team') ? 'Integrator' : null };
+};
+
+const toApiKey = ({ key, ...rest }: FixtureApiKey): ApiKey => ({ ...rest, key_last4: key.slice(-4) });
+
+const findCollection = (request: MockRequest, id: string) => scopedCollections(request).find(c => c.id === id);
+
+const latest = (collection: FixtureCollection) => collection.snapshots[collection.snapshots.length - 1];
+
+const findSnapshot = (collection: FixtureCollection, snapshotId: string | number) =>
+  collection.snapshots.find(s => s.id === Number(snapshotId));
+
+const previousOf = (collection: FixtureCollection, snapshot: FixtureSnapshot) =>
+  collection.snapshots[collection.snapshots.indexOf(snapshot) - 1];
+
+const toCollection = (collection: FixtureCollection): Collection => ({
+  id: collection.id,
+  user_id: collection.user_id,
+  name: collection.name,
+  first_seen: collection.snapshots[0]?.snapshot_time ?? new Date().toISOString(),
+  last_seen: latest(collection)?.snapshot_time ?? new Date().toISOString(),
+});
+
+const sizeOf = (snapshot: FixtureSnapshot) => Math.max(1, Math.round(JSON.stringify(snapshot.items).length / 1024));
+
+const toSnapshot = (collection: FixtureCollection, snapshot: FixtureSnapshot): Snapshot => ({
+  id: snapshot.id,
+  collection_id: collection.id,
+  snapshot_time: snapshot.snapshot_time,
+  collection_name: collection.name,
+  item_count: snapshot.items.length,
+  size_kb: sizeOf(snapshot),
+  label: snapshot.label ?? null,
+  note: snapshot.note ?? null,
+  tags: snapshot.tags ?? [],
+});
+
+const toAnnotation = (snapshot: FixtureSnapshot): SnapshotAnnotation => ({
+  snapshot_id: snapshot.id,
+  label: snapshot.label ?? null,
+  note: snapshot.note ?? null,
+  tags: snapshot.tags ?? [],
+});
+
+const countRequests = (items: SnapshotItem[]): number =>
+  items.reduce((total, item) => total + (item.item ? countRequests(item.item) : item.request ? 1 : 0), 0);
+
+const changesFor = (collection: FixtureCollection, snapshot: FixtureSnapshot) =>
+  diffSnapshots(collection, previousOf(collection, snapshot), snapshot);
+
+const allChanges = (collection: FixtureCollection) =>
+  collection.snapshots.slice(1).flatMap(snapshot => changesFor(collection, snapshot));
+
+const summarize = (changes: { change_type: string; endpoint_name?: string }[]) => ({
+  total_changes: changes.length,
+  changes_by_type: {
+    added: changes.filter(c => c.change_type === 'added').length,
+    modified: changes.filter(c => c.change_type === 'modified').length,
+    deleted: changes.filter(c => c.change_type === 'deleted').length,
+  },
+  affected_endpoints: [...new Set(changes.map(c => c.endpoint_name).filter((n): n is string => !!n))],
+});
+
+const searchItems = (items: SnapshotItem[], search: string): SnapshotItem[] => {
+  if (!search) return items;
+  const term = search.toLowerCase();
+  return items.flatMap(item => {
+    if (item.name.toLowerCase().includes(term)) return [item];
+    const children = item.item ? searchItems(item.item, search) : [];
+    return children.length > 0 ? [{ ...item, item: children }] : [];
+  });
+};
+
+const deletionOf = (doomed: FixtureSnapshot[]) =>
+  ({ snapshot_ids: doomed.map(s => s.id), freed_kb: doomed.reduce((total, s) => total + sizeOf(s), 0) });
+
+const deleteSnapshots = (collection: FixtureCollection, doomed: FixtureSnapshot[]) => {
+  collection.snapshots = collection.snapshots.filter(s => !doomed.includes(s));
+  return deletionOf(doomed);
+};
+
+const prunable = (collection: FixtureCollection, policy: RetentionInput) =>
+  snapshotsToPrune([...collection.snapshots].reverse(), policy);
+
+const readRetention = (body: any): RetentionInput => ({
+  keep_last: typeof body?.keep_last === 'number' ? body.keep_last : null,
+  keep_days: typeof body?.keep_days === 'number' ? body.keep_days : null,
+  keep_labeled: body?.keep_labeled !== false,
+});
+
+// Every new snapshot goes through here so the collection's retention policy applies to it
+const addSnapshot = (collection: FixtureCollection, snapshot: FixtureSnapshot) => {
+  collection.snapshots.push(snapshot);
+  const policy = state.retention.find(p => p.collection_id === collection.id);
+  if (policy) deleteSnapshots(collection, prunable(collection, policy));
+};
+
+const saveCollection: Handler = ({ body, workspaceId, token }) => {
+  const { collection_id: id, name } = body ?? {};
+  if (!id || !name) return badRequest('collection_id and name are required');
+  const workspace = workspaceId ? findWorkspace(workspaceId, token) : undefined;
+  if (workspaceId && !workspace) return notFound('workspace not found');
+
+  let collection = state.collections.find(c => c.id === id);
+  if (!collection) {
+    const source = state.postmanOnly.find(c => c.id === id);
+    if (!source) return notFound('collection not found in Postman');
+    collection = { ...structuredClone(source), snapshots: [] };
+    state.collections.push(collection);
+  }
+  const template = latest(collection) ?? state.postmanOnly.find(c => c.id === id)?.snapshots[0];
+  const snapshot: FixtureSnapshot = {
+    id: state.nextSnapshotId++,
+    snapshot_time: new Date().toISOString(),
+    items: structuredClone(template?.items ?? []),
+  };
+  addSnapshot(collection, snapshot);
+  // Importing while a workspace is active shares the collection into it
+  if (workspace && !workspace.collection_ids.includes(collection.id)) {
+    workspace.collection_ids.push(collection.id);
+  }
+  return ok({ message: 'collection saved', collection_id: collection.id, snapshot_id: snapshot.id });
+};
+
+// Files exported from elsewhere may lack a Postman id; those get one of ours
+const uploadCollection: Handler = ({ body, workspaceId, token }) => {
+  const file = body?.collection;
+  if (!file?.info?.name || !Array.isArray(file.item)) return badRequest('collection must be a Postman v2 collection export');
+  const workspace = workspaceId ? findWorkspace(workspaceId, token) : undefined;
+  if (workspaceId && !workspace) return notFound('workspace not found');
+
+  const id: string = file.info._postman_id || `upload-${Date.now().toString(36)}`;
+  let collection = state.collections.find(c => c.id === id);
+  if (!collection) {
+    collection = { id, name: file.info.name, description: file.info.description ?? '', user_id: MOCK_USER_ID, snapshots: [] };
+    state.collections.push(collection);
+  }
+  collection.name = file.info.name;
+  const snapshot: FixtureSnapshot = { id: state.nextSnapshotId++, snapshot_time: new Date().toISOString(), items: file.item };
+  addSnapshot(collection, snapshot);
+  if (workspace && !workspace.collection_ids.includes(collection.id)) {
+    workspace.collection_ids.push(collection.id);
+  }
+  return ok({ message: 'collection uploaded', collection_id: collection.id, snapshot_id: snapshot.id });
+};
+
+// Uploaded files have no Postman source, so a scheduled refresh can't fetch them
+const postmanIds = new Set([...fixtureCollections, ...fixturePostmanOnly].map(c => c.id));
+
+const nextRunAt = (schedule: SnapshotSchedule, from = new Date()) =>
+  schedule.enabled
+    ? nextCronRun(scheduleCron({ frequency: schedule.frequency, cron: schedule.cron ?? undefined }), from)?.toISOString() ?? null
+    : null;
+
+for (const { schedule } of state.schedules) schedule.next_run_at = nextRunAt(schedule);
+
+// There's no background worker in the mock, so schedules that came due run on
+// the next request. Missed runs are skipped rather than replayed.
+const runDueSchedules = () => {
+  const now = new Date();
+  for (const entry of state.schedules) {
+    const { schedule } = entry;
+    if (!schedule.next_run_at || new Date(schedule.next_run_at) > now) continue;
+    const collection = state.collections.find(c => c.id === schedule.collection_id);
+    const run: ScheduleRun = { id: `run-${state.nextRunId++}`, started_at: schedule.next_run_at, status: 'success', snapshot_id: null, error: null };
+    if (!collection || !postmanIds.has(collection.id)) {
+      run.status = 'failed';
+      run.error = 'Collection is not in the Postman account; upload the file again to snapshot it';
+    } else {
+      const snapshot: FixtureSnapshot = {
+        id: state.nextSnapshotId++,
+        snapshot_time: run.started_at,
+        items: structuredClone(latest(collection)?.items ?? []),
+      };
+      addSnapshot(collection, snapshot);
+      run.snapshot_id = snapshot.id;
+    }
+    entry.runs.push(run);
+    schedule.last_run_at = run.started_at;
+    schedule.last_run_status = run.status;
+    schedule.next_run_at = nextRunAt(schedule, now);
+  }
+};
+
+const routes: [string, RegExp, Handler][] = [
+  ['GET', /^\/health-check$/, () => ok({ status: 'ok', mode: 'mock' })],
+
+  ['POST', /^\/signup$/, ({ body }) =>
+    body?.email && body?.password ? ok({ message: 'account created' }) : badRequest('email and password are required')],
+
+  ['POST', /^\/auth\/login$/, ({ body }) =>
+    body?.email && body?.password
+      ? ok({ token: issueToken(body.email) })
+      : { status: 401, body: { message: 'invalid credentials' } }],
+
+  // Trusts whatever the provider handed back; a real backend verifies it
+  ['POST', /^\/auth\/oauth$/, ({ body }) =>
+    body?.provider && body?.access_token
+      ? ok({ token: issueToken(`${body.provider}-user@integrator.local`) })
+      : badRequest('provider and access_token are required')],
+
+  ['POST', /^\/auth\/refresh$/, ({ token }) => {
+    const email = token ? readToken(token)?.email : undefined;
+    return email ? ok({ token: issueToken(email) }) : { status: 401, body: { message: 'invalid token' } };
+  }],
+
+  ['POST', /^\/auth\/forgot-password$/, ({ body }) =>
+    body?.email ? ok({ message: 'if the account exists, a reset link was sent' }) : badRequest('email is required')],
+
+  ['POST', /^\/auth\/reset-password$/, ({ body }) => {
+    if (!body?.token || body.token === 'expired') return badRequest('reset token is invalid or has expired');
+    if (!body.password || body.password.length < 8) {
+      return { status: 422, body: { message: 'validation failed', errors: { password: 'must be at least 8 characters' } } };
+    }
+    return ok({ message: 'password reset' });
+  }],
+
+  ['POST', /^\/auth\/verify-email$/, ({ body }) => {
+    if (!body?.token || body.token === 'expired') return notFound('verification token not found');
+    state.account.email_verified = true;
+    return ok({ message: 'email verified' });
+  }],
+
+  ['POST', /^\/auth\/resend-verification$/, () => ok({ message: 'verification email sent' })],
+
+  ['GET', /^\/account$/, () => ok(state.account)],
+
+  ['PUT', /^\/account\/email$/, ({ body }) => {
+    if (!body?.current_password) {
+      return { status: 422, body: { message: 'validation failed', errors: { current_password: 'is required' } } };
+    }
+    state.account = { email: body.email, email_verified: false };
+    return ok(state.account);
+  }],
+
+  ['PUT', /^\/account\/password$/, ({ body }) => {
+    if (!body?.new_password || body.new_password.length < 8) {
+      return { status: 422, body: { message: 'validation failed', errors: { new_password: 'must be at least 8 characters' } } };
+    }
+    return ok({ message: 'password changed' });
+  }],
+
+  ['POST', /^\/api-key$/, ({ body, token }) => {
+    if (!body?.api_key) return badRequest('api_key is required');
+    const name = body.name || `Key ${state.apiKeys.length + 1}`;
+    if (state.apiKeys.some(k => k.name === name)) return { status: 409, body: { message: `a key named ${name} already exists` } };
+    const owner = checkPostmanKey(body.api_key, token);
+    if ('status' in owner) return owner;
+    const isDefault = !!body.is_default || state.apiKeys.length === 0;
+    if (isDefault) state.apiKeys.forEach(k => { k.default = false; });
+    const key = { id: `key-${state.nextKeyId++}`, name, key: body.api_key, default: isDefault, last_used_at: null, ...owner };
+    state.apiKeys.push(key);
+    return ok(toApiKey(key));
+  }],
+
+  ['PUT', /^\/keys\/api-key\/([^/]+)$/, ({ body, token }, [id]) => {
+    const key = state.apiKeys.find(k => k.id === id);
+    if (!key) return notFound('api key not found');
+    if (!body?.api_key) return badRequest('api_key is required');
+    const owner = checkPostmanKey(body.api_key, token);
+    if ('status' in owner) return owner;
+    Object.assign(key, { key: body.api_key }, owner);
+    return ok(toApiKey(key));
+  }],
+
+  ['PUT', /^\/keys\/api-key\/([^/]+)\/default$/, (_, [id]) => {
+    const key = state.apiKeys.find(k => k.id === id);
+    if (!key) return notFound('api key not found');
+    state.apiKeys.forEach(k => { k.default = k === key; });
+    return ok(toApiKey(key));
+  }],
+
+  ['GET', /^\/keys\/api-keys$/, () => ok(state.apiKeys.map(toApiKey))],
+
+  ['DELETE', /^\/keys\/api-key\/([^/]+)$/, (_, [id]) => {
+    const index = state.apiKeys.findIndex(k => k.id === id);
+    if (index === -1) return notFound('api key not found');
+    const [removed] = state.apiKeys.splice(index, 1);
+    // Promote another key so there's always a default while any remain
+    if (removed.default && state.apiKeys.length > 0) state.apiKeys[0].default = true;
+    return ok({ message: 'api key deleted' });
+  }],
+
+  ['GET', /^\/collections$/, ({ query }) => {
+    const keyId = query.get('api_key_id');
+    const key = keyId ? state.apiKeys.find(k => k.id === keyId) : state.apiKeys.find(k => k.default);
+    if (!key) return keyId ? notFound('api key not found') : badRequest('no postman api key configured');
+    key.last_used_at = new Date().toISOString();
+    return ok([...state.collections, ...state.postmanOnly].map(c => ({
+      id: c.id,
+      name: c.name,
+      description: c.description,
+      requests: countRequests((latest(c) ?? c.snapshots[0])?.items ?? []),
+    })));
+  }],
+
+  ['GET', /^\/collections\/user$/, request => {
+    if (request.workspaceId && !findWorkspace(request.workspaceId, request.token)) return notFound('workspace not found');
+    return ok(scopedCollections(request).map(toCollection));
+  }],
+
+  ['GET', /^\/workspaces$/, ({ token }) => {
+    const email = emailOf(token);
+    return ok(state.workspaces.filter(w => memberOf(w, email)).map(w => toWorkspace(w, email)));
+  }],
+
+  ['POST', /^\/workspaces$/, ({ body, token }) => {
+    const name = body?.name?.trim();
+    if (!name) return { status: 422, body: { message: 'validation failed', errors: { name: 'is required' } } };
+    const email = emailOf(token);
+    const workspace: FixtureWorkspace = {
+      id: `ws-${Date.now().toString(36)}`,
+      name,
+      invite_code: Math.random().toString(36).slice(2, 10).toUpperCase(),
+      members: [{ email, role: 'owner', status: 'active' }],
+      collection_ids: [],
+    };
+    state.workspaces.push(workspace);
+    return ok(toWorkspace(workspace, email));
+  }],
+
+  ['POST', /^\/workspaces\/join$/, ({ body, token }) => {
+    const workspace = state.workspaces.find(w => w.invite_code === body?.invite_code?.trim());
+    if (!workspace) return notFound('invite code not recognised');
+    const email = emailOf(token);
+    const member = workspace.members.find(m => m.email === email);
+    if (member) {
+      member.status = 'active';
+    } else {
+      workspace.members.push({ email, role: 'member', status: 'active' });
+    }
+    return ok(toWorkspace(workspace, email));
+  }],
+
+  ['GET', /^\/workspaces\/([^/]+)\/members$/, ({ token }, [id]) => {
+    const workspace = findWorkspace(id, token);
+    return workspace ? ok(workspace.members) : notFound('workspace not found');
+  }],
+
+  ['POST', /^\/workspaces\/([^/]+)\/invitations$/, ({ body, token }, [id]) => {
+    const workspace = findWorkspace(id, token);
+    if (!workspace) return notFound('workspace not found');
+    if (memberOf(workspace, emailOf(token))?.role !== 'owner') {
+      return { status: 403, body: { message: 'only workspace owners can invite members' } };
+    }
+    const email = body?.email?.trim().toLowerCase();
+    if (!email || !email.includes('@')) {
+      return { status: 422, body: { message: 'validation failed', errors: { email: 'must be a valid email address' } } };
+    }
+    if (workspace.members.some(m => m.email === email)) {
+      return { status: 409, body: { message: `${email} is already a member or invited` } };
+    }
+    const member = { email, role: 'member' as const, status: 'invited' as const };
+    workspace.members.push(member);
+    return ok(member);
+  }],
+
+  ['POST', /^\/workspaces\/([^/]+)\/collections$/, ({ body, token }, [id]) => {
+    const workspace = findWorkspace(id, token);
+    if (!workspace) return notFound('workspace not found');
+    const collection = state.collections.find(c => c.id === body?.collection_id);
+    if (!collection) return notFound('collection not found');
+    if (workspace.collection_ids.includes(collection.id)) {
+      return { status: 409, body: { message: `${collection.name} is already shared with ${workspace.name}` } };
+    }
+    workspace.collection_ids.push(collection.id);
+    return ok({ message: 'collection shared' });
+  }],
+
+  ['POST', /^\/collections\/save-collection$/, saveCollection],
+
+  ['POST', /^\/collections\/upload$/, uploadCollection],
+
+  ['GET', /^\/collections\/compare\/([^/]+)$/, (request, [id]) => {
+    const collection = findCollection(request, id);
+    if (!collection) return notFound('collection not found');
+    const changes = collection.snapshots.length > 1 ? changesFor(collection, latest(collection)) : [];
+    return ok(changes.map(c => ({
+      path: c.path,
+      change_type: c.change_type,
+      old_value: c.old_value == null ? undefined : JSON.stringify(c.old_value),
+      new_value: c.new_value == null ? undefined : JSON.stringify(c.new_value),
+    })));
+  }],
+
+  ['GET', /^\/collections\/snapshot\/compare\/([^/]+)$/, (request, [id]) => {
+    const { query } = request;
+    const collection = findCollection(request, id);
+    if (!collection) return notFound('collection not found');
+    const from = findSnapshot(collection, query.get('snapShotIdOne') ?? '');
+    const to = findSnapshot(collection, query.get('snapShotIdTwo') ?? '');
+    if (!from || !to) return notFound('snapshot not found');
+    const [older, newer] = from.id < to.id ? [from, to] : [to, from];
+    return ok(analyzeImpact(collection.id, newer.id, diffSnapshots(collection, older, newer)));
+  }],
+
+  ['GET', /^\/collections\/([^/]+)\/schedule$/, (request, [id]) => {
+    if (!findCollection(request, id)) return notFound('collection not found');
+    return ok(state.schedules.find(s => s.schedule.collection_id === id)?.schedule ?? null);
+  }],
+
+  ['PUT', /^\/collections\/([^/]+)\/schedule$/, (request, [id]) => {
+    if (!findCollection(request, id)) return notFound('collection not found');
+    const { enabled = true, frequency, cron } = request.body ?? {};
+    if (!['hourly', 'daily', 'weekly', 'cron'].includes(frequency)) return badRequest('frequency must be hourly, daily, weekly or cron');
+    if (frequency === 'cron') {
+      const problem = typeof cron === 'string' ? cronProblem(cron) : 'cron is required';
+      if (problem) return { status: 400, body: { message: problem, code: 'invalid_cron' } };
+    }
+    let entry = state.schedules.find(s => s.schedule.collection_id === id);
+    if (!entry) {
+      entry = {
+        schedule: { collection_id: id, enabled, frequency, cron: null, next_run_at: null, last_run_at: null, last_run_status: null },
+        runs: [],
+      };
+      state.schedules.push(entry);
+    }
+    Object.assign(entry.schedule, { enabled: Boolean(enabled), frequency, cron: frequency === 'cron' ? cron.trim() : null });
+    entry.schedule.next_run_at = nextRunAt(entry.schedule);
+    return ok(entry.schedule);
+  }],
+
+  ['DELETE', /^\/collections\/([^/]+)\/schedule$/, (request, [id]) => {
+    if (!findCollection(request, id)) return notFound('collection not found');
+    state.schedules = state.schedules.filter(s => s.schedule.collection_id !== id);
+    return ok({ message: 'schedule removed' });
+  }],
+
+  ['GET', /^\/collections\/([^/]+)\/schedule\/runs$/, (request, [id]) => {
+    if (!findCollection(request, id)) return notFound('collection not found');
+    const runs = state.schedules.find(s => s.schedule.collection_id === id)?.runs ?? [];
+    return ok([...runs].reverse());
+  }],
+
+  ['GET', /^\/collections\/([^/]+)\/retention$/, (request, [id]) => {
+    if (!findCollection(request, id)) return notFound('collection not found');
+    return ok(state.retention.find(p => p.collection_id === id) ?? null);
+  }],
+
+  ['POST', /^\/collections\/([^/]+)\/retention\/preview$/, (request, [id]) => {
+    const collection = findCollection(request, id);
+    if (!collection) return notFound('collection not found');
+    const input = readRetention(request.body);
+    const problem = retentionProblem(input);
+    if (problem) return { status: 400, body: { code: 'invalid_retention', message: problem } };
+    return ok(deletionOf(prunable(collection, input)));
+  }],
+
+  ['PUT', /^\/collections\/([^/]+)\/retention$/, (request, [id]) => {
+    const collection = findCollection(request, id);
+    if (!collection) return notFound('collection not found');
+    const input = readRetention(request.body);
+    const problem = retentionProblem(input);
+    if (problem) return { status: 400, body: { code: 'invalid_retention', message: problem } };
+    state.retention = [...state.retention.filter(p => p.collection_id !== id), { collection_id: id, ...input }];
+    return ok(deleteSnapshots(collection, prunable(collection, input)));
+  }],
+
+  ['DELETE', /^\/collections\/([^/]+)\/retention$/, (request, [id]) => {
+    if (!findCollection(request, id)) return notFound('collection not found');
+    state.retention = state.retention.filter(p => p.collection_id !== id);
+    return ok({ message: 'retention policy removed' });
+  }],
+
+  ['GET', /^\/collections\/([^/]+)\/snapshots$/, (request, [id]) => {
+    const { query } = request;
+    const collection = findCollection(request, id);
+    if (!collection) return notFound('collection not found');
+    const page = Number(query.get('page') ?? 1);
+    const pageSize = Number(query.get('pageSize') ?? 10);
+    const tag = query.get('tag')?.toLowerCase();
+    const ordered = [...collection.snapshots].reverse().filter(s => !tag || s.tags?.includes(tag));
+    return ok({
+      data: ordered.slice((page - 1) * pageSize, page * pageSize).map(s => toSnapshot(collection, s)),
+      page,
+      pageSize,
+      totalPages: Math.max(1, Math.ceil(ordered.length / pageSize)),
+      totalItems: ordered.length,
+    });
+  }],
+
+  ['GET', /^\/collections\/([^/]+)\/snapshots\/annotations$/, (request, [id]) => {
+    const collection = findCollection(request, id);
+    if (!collection) return notFound('collection not found');
+    const annotated = collection.snapshots.filter(s => s.label || s.note || s.tags?.length);
+    return ok({ data: annotated.map(toAnnotation).reverse() });
+  }],
+
+  ['PUT', /^\/collections\/([^/]+)\/snapshots\/([^/]+)\/annotation$/, (request, [id, snapshotId]) => {
+    const { body } = request;
+    const collection = findCollection(request, id);
+    const snapshot = collection && findSnapshot(collection, snapshotId);
+    if (!collection || !snapshot) return notFound('snapshot not found');
+    const label = typeof body?.label === 'string' ? body.label.trim() : '';
+    if (label.length > 80) return badRequest('label must be 80 characters or fewer');
+    snapshot.label = label || undefined;
+    snapshot.note = typeof body?.note === 'string' && body.note.trim() ? body.note.trim() : undefined;
+    snapshot.tags = Array.isArray(body?.tags) ? normalizeTags(body.tags.filter((t: unknown) => typeof t === 'string')) : [];
+    return ok(toAnnotation(snapshot));
+  }],
+
+  ['GET', /^\/collections\/([^/]+)\/snapshots\/usage$/, (request, [id]) => {
+    const collection = findCollection(request, id);
+    if (!collection) return notFound('collection not found');
+    return ok({
+      snapshot_count: collection.snapshots.length,
+      total_size_kb: collection.snapshots.reduce((total, s) => total + sizeOf(s), 0),
+    });
+  }],
+
+  ['POST', /^\/collections\/([^/]+)\/snapshots\/delete$/, (request, [id]) => {
+    const collection = findCollection(request, id);
+    if (!collection) return notFound('collection not found');
+    const ids: unknown = request.body?.snapshot_ids;
+    if (!Array.isArray(ids) || ids.length === 0) return badRequest('snapshot_ids must list at least one snapshot');
+    const doomed = collection.snapshots.filter(s => ids.includes(s.id));
+    if (doomed.length !== ids.length) return notFound('snapshot not found');
+    if (doomed.length === collection.snapshots.length) return badRequest('a collection must keep at least one snapshot');
+    return ok(deleteSnapshots(collection, doomed));
+  }],
+
+  ['GET', /^\/collections\/([^/]+)\/snapshot-id$/, (request, [id]) => {
+    const collection = findCollection(request, id);
+    if (!collection) return notFound('collection not found');
+    return ok({ data: collection.snapshots.map(s => s.id).reverse() });
+  }],
+
+  ['GET', /^\/collections\/([^/]+)\/snapshots\/([^/]+)\/items$/, (request, [id, snapshotId]) => {
+    const { query } = request;
+    const collection = findCollection(request, id);
+    const snapshot = collection && findSnapshot(collection, snapshotId);
+    if (!collection || !snapshot) return notFound('snapshot not found');
+    const search = query.get('search') ?? '';
+    const fields = query.get('fields') ?? '';
+    const pageSize = Number(query.get('page_size') ?? snapshot.items.length);
+    const matched = searchItems(snapshot.items, search);
+    const items = fields === 'name' ? matched.map(item => ({ name: item.name })) : matched;
+    return ok({
+      collection_id: collection.id,
+      collection_name: collection.name,
+      filters_applied: { Fields: fields, Search: search, ItemType: '', Depth: '' },
+      items: items.slice(0, pageSize),
+      pagination: { page: 1, page_size: pageSize, total_items: items.length, total_pages: 1 },
+      snapshot_id: String(snapshot.id),
+    });
+  }],
+
+  ['GET', /^\/collections\/([^/]+)\/snapshots\/([^/]+)\/hierarchy$/, (request, [id, snapshotId]) => {
+    const collection = findCollection(request, id);
+    const snapshot = collection && findSnapshot(collection, snapshotId);
+    if (!collection || !snapshot) return notFound('snapshot not found');
+    return ok(buildHierarchy(collection.name, snapshot.items, changesFor(collection, snapshot)));
+  }],
+
+  ['GET', /^\/collections\/([^/]+)\/snapshots\/([^/]+)\/impact-analysis$/, (request, [id, snapshotId]) => {
+    const collection = findCollection(request, id);
+    const snapshot = collection && findSnapshot(collection, snapshotId);
+    if (!collection || !snapshot) return notFound('snapshot not found');
+    return ok(analyzeImpact(collection.id, snapshot.id, changesFor(collection, snapshot)));
+  }],
+
+  ['GET', /^\/collections\/([^/]+)\/changes\/diff\/([^/]+)$/, (request, [id, snapshotId]) => {
+    const { query } = request;
+    const collection = findCollection(request, id);
+    const snapshot = collection && findSnapshot(collection, snapshotId);
+    if (!collection || !snapshot) return notFound('snapshot not found');
+    const all = changesFor(collection, snapshot);
+    const search = (query.get('search') ?? '').toLowerCase();
+    const filterType = query.get('filterType');
+    const groupBy = query.get('groupBy');
+    const page = Number(query.get('page') ?? 1);
+    const pageSize = Number(query.get('pageSize') ?? 50);
+    const filtered = all.filter(c =>
+      (!filterType || c.change_type === filterType) &&
+      (!search || c.human_path.toLowerCase().includes(search))
+    );
+    const changes = filtered.slice((page - 1) * pageSize, page * pageSize);
+    const groupKey = (c: typeof changes[number]) => (groupBy === 'type' ? c.change_type : c.endpoint_name ?? 'Collection');
+    const groups = groupBy
+      ? [...new Set(changes.map(groupKey))].map(name => {
+          const members = changes.filter(c => groupKey(c) === name);
+          return { name, count: members.length, changes: members, expanded: false };
+        })
+      : undefined;
+    const totalPages = Math.max(1, Math.ceil(filtered.length / pageSize));
+    return ok({
+      old_snapshot_id: previousOf(collection, snapshot)?.id ?? 0,
+      new_snapshot_id: snapshot.id,
+      collection_id: collection.id,
+      changes,
+      summary: summarize(all),
+      pagination: { page, page_size: pageSize, total_items: filtered.length, total_pages: totalPages, has_more: page < totalPages },
+      groups,
+    });
+  }],
+
+  ['GET', /^\/collections\/([^/]+)\/change\/summary$/, (request, [id]) => {
+    const collection = findCollection(request, id);
+    if (!collection) return notFound('collection not found');
+    const { changes_by_type, affected_endpoints } = summarize(allChanges(collection));
+    return ok({ changes_by_type, affected_endpoints });
+  }],
+
+  ['GET', /^\/collections\/([^/]+)\/changes$/, (request, [id]) => {
+    const collection = findCollection(request, id);
+    if (!collection) return notFound('collection not found');
+    const changes: RecentChange[] = allChanges(collection)
+      .reverse()
+      .map(({ change_type, path, human_path, created_at, modification, endpoint_name }) =>
+        ({ change_type, path, human_path, created_at, modification, endpoint_name }));
+    return ok({ changes });
+  }],
+
+  ['GET', /^\/collections\/([^/]+)$/, (request, [id]) => {
+    const collection = findCollection(request, id);
+    if (!collection) return notFound('collection not found');
+    const snapshot = latest(collection);
+    return ok({ ...toSnapshot(collection, snapshot), content: JSON.stringify({ item: snapshot.items }) });
+  }],
+];
+
+export const handleMockRequest = (request: MockRequest): MockResponse => {
+  runDueSchedules();
+  for (const [method, pattern, handler] of routes) {
+    if (method !== request.method) continue;
+    const match = pattern.exec(request.path);
+    if (match) return handler(request, match.slice(1).map(decodeURIComponent));
+  }
+  return notFound(`No mock route for ${request.method} ${request.path}`);
+};
@@ -0,0 +1,114 @@
+import * as v from './validate';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  // The secret itself never leaves the backend
+  key_last4: string;
+  // The key used when a request doesn't name one
+  default: boolean;
+  last_used_at: string | null;
+  // The Postman account the key belongs to, as reported when it was validated
+  postman_user: string | null;
+  postman_team: string | null;
+}
+
+export interface NewApiKey {
+  name: string;
+  apiKey: string;
+  isDefault: boolean;
+}
+
+export interface Account {
+  email: string;
+  email_verified: boolean;
+}
+
+export interface OAuthProvider {
+  id: string;
+  label: string;
+}
+
+export interface LoginResponse {
+  token: string;
+  // Backends that don't put the role in the token report it here
+  role?: string;
+}
+
+export const ROLES = ['viewer', 'editor', 'admin'] as const;
+
+export type Role = typeof ROLES[number];
+
+export type Permission =
+  | 'collections:import'
+  | 'snapshots:create'
+  | 'snapshots:delete'
+  | 'apiKeys:manage'
+  | 'admin:access';
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: [],
+  editor: ['collections:import', 'snapshots:create', 'snapshots:delete'],
+  admin: ['collections:import', 'snapshots:create', 'snapshots:delete', 'apiKeys:manage', 'admin:access'],
+};
+
+export const hasPermission = (role: Role | null, permission: Permission) =>
+  role !== null && ROLE_PERMISSIONS[role].includes(permission);
+
+// What the browser learns about its session; the token itself stays in an
+// httpOnly cookie
+export interface Session {
+  authenticated: boolean;
+  // Milliseconds since epoch, null when unknown
+  expiresAt: number | null;
+  role: Role | null;
+}
+
+export const apiKey = v.object<ApiKey>({
+  id: v.id,
+  name: v.string,
+  key_last4: v.string,
+  default: v.defaulted(v.boolean, false),
+  last_used_at: v.nullable(v.string),
+  postman_user: v.nullable(v.string),
+  postman_team: v.nullable(v.string),
+});
+
+export const loginResponse = v.object<LoginResponse>({
+  token: v.string,
+  role: v.optional(v.string),
+});
+
+export const session = v.object<Session>({
+  authenticated: v.boolean,
+  expiresAt: v.nullable(v.number),
+  role: v.nullable(v.literal(...ROLES)),
+});
+
+export const account = v.object<Account>({
+  email: v.string,
+  email_verified: v.defaulted(v.boolean, false),
+});
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+// Mirrors the backend's password rules so forms can flag problems before submitting
+export const passwordProblem = (password: string): string | null => {
+  if (password.length < PASSWORD_MIN_LENGTH) return `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
+  if (!/[A-Za-z]/.test(password) || !/\d/.test(password)) return 'Password must contain letters and numbers';
+  return null;
+};
+
+// Catches obvious paste mistakes; whether Postman accepts the key is checked on save
+export const apiKeyProblem = (key: string): string | null => {
+  if (!key.startsWith('PMAK-')) return 'Postman API keys start with PMAK-';
+  if (/\s/.test(key)) return "API keys can't contain spaces";
+  return null;
+};
+
+export const maskApiKey = (last4: string) => `••••${last4}`;
+
+export const oauthProvider = v.object<OAuthProvider>({
+  id: v.string,
+  label: v.string,
+});
@@ -0,0 +1,224 @@
+import * as v from './validate';
+
+export type ChangeType = 'added' | 'deleted' | 'modified';
+
+export type ResourceType = 'request' | 'response' | 'endpoint' | 'collection';
+
+// The impact analyzer buckets changes as breaking/security/data/cosmetic, and
+// grades individual items with high/medium/low.
+export type Severity = 'breaking' | 'security' | 'data' | 'high' | 'medium' | 'low';
+
+export interface Change {
+  id: number;
+  collection_id: string;
+  old_snapshot_id: number;
+  new_snapshot_id: number;
+  change_type: ChangeType;
+  path: string;
+  modification: string;
+  created_at: string;
+  human_path: string;
+  path_segments: string[];
+  endpoint_name?: string;
+  resource_type: ResourceType;
+}
+
+export interface DiffDetail extends Change {
+  old_value: any;
+  new_value: any;
+}
+
+export type RecentChange = Pick<
+  Change,
+  'change_type' | 'path' | 'human_path' | 'created_at' | 'modification' | 'endpoint_name'
+>;
+
+export interface ChangesByType {
+  added: number;
+  modified: number;
+  deleted: number;
+}
+
+export interface Summary {
+  changes_by_type: ChangesByType;
+  affected_endpoints: unknown[];
+}
+
+export interface DiffSummary extends Summary {
+  total_changes: number;
+  affected_endpoints: string[];
+}
+
+export interface DiffPagination {
+  page: number;
+  page_size: number;
+  total_items: number;
+  total_pages: number;
+  has_more: boolean;
+}
+
+export interface DiffGroup {
+  name: string;
+  count: number;
+  changes: DiffDetail[];
+  expanded: boolean;
+}
+
+export interface DiffResponse {
+  old_snapshot_id: number;
+  new_snapshot_id: number;
+  collection_id: string;
+  changes: DiffDetail[];
+  summary: DiffSummary;
+  pagination?: DiffPagination;
+  groups?: DiffGroup[];
+}
+
+export interface TreeNode {
+  name: string;
+  type: string;
+  change_count?: number;
+  change_type?: string;
+  children?: TreeNode[];
+}
+
+export interface ImpactItem {
+  change: Change;
+  impact: string;
+  severity: Severity;
+  suggestions?: string[];
+}
+
+export interface ImpactSummary {
+  total_breaking: number;
+  total_security: number;
+  total_data: number;
+  total_cosmetic: number;
+  risk_score: number;
+  recommendation: string;
+}
+
+export interface ImpactAnalysis {
+  collection_id: string;
+  snapshot_id: number;
+  breaking_changes: ImpactItem[];
+  security_changes: ImpactItem[];
+  data_changes: ImpactItem[];
+  cosmetic_changes: ImpactItem[];
+  summary: ImpactSummary;
+}
+
+const changeType = v.literal<ChangeType>('added', 'deleted', 'modified');
+
+const resourceType = v.literal<ResourceType>('request', 'response', 'endpoint', 'collection');
+
+const severity = v.literal<Severity>('breaking', 'security', 'data', 'high', 'medium', 'low');
+
+const changeFields = {
+  id: v.number,
+  collection_id: v.string,
+  old_snapshot_id: v.number,
+  new_snapshot_id: v.number,
+  change_type: changeType,
+  path: v.string,
+  modification: v.defaulted(v.string, ''),
+  created_at: v.string,
+  human_path: v.defaulted(v.string, ''),
+  path_segments: v.defaulted(v.array(v.string), []),
+  endpoint_name: v.optional(v.string),
+  resource_type: resourceType,
+};
+
+export const change = v.object<Change>(changeFields);
+
+export const diffDetail = v.object<DiffDetail>({
+  ...changeFields,
+  old_value: v.unknown,
+  new_value: v.unknown,
+});
+
+export const recentChange = v.object<RecentChange>({
+  change_type: changeType,
+  path: v.defaulted(v.string, ''),
+  human_path: v.defaulted(v.string, ''),
+  created_at: v.string,
+  modification: v.defaulted(v.string, ''),
+  endpoint_name: v.optional(v.string),
+});
+
+const changesByType = v.defaulted(
+  v.object<ChangesByType>({
+    added: v.defaulted(v.number, 0),
+    modified: v.defaulted(v.number, 0),
+    deleted: v.defaulted(v.number, 0),
+  }),
+  { added: 0, modified: 0, deleted: 0 }
+);
+
+export const summary = v.object<Summary>({
+  changes_by_type: changesByType,
+  affected_endpoints: v.defaulted(v.array(v.unknown), []),
+});
+
+export const diffResponse = v.object<DiffResponse>({
+  old_snapshot_id: v.number,
+  new_snapshot_id: v.number,
+  collection_id: v.string,
+  changes: v.defaulted(v.array(diffDetail), []),
+  summary: v.object<DiffSummary>({
+    total_changes: v.defaulted(v.number, 0),
+    changes_by_type: changesByType,
+    affected_endpoints: v.defaulted(v.array(v.string), []),
+  }),
+  pagination: v.optional(
+    v.object<DiffPagination>({
+      page: v.number,
+      page_size: v.number,
+      total_items: v.number,
+      total_pages: v.number,
+      has_more: v.defaulted(v.boolean, false),
+    })
+  ),
+  groups: v.optional(
+    v.array(
+      v.object<DiffGroup>({
+        name: v.string,
+        count: v.number,
+        changes: v.defaulted(v.array(diffDetail), []),
+        expanded: v.defaulted(v.boolean, false),
+      })
+    )
+  ),
+});
+
+export const treeNode: v.Validator<TreeNode> = v.object<TreeNode>({
+  name: v.defaulted(v.string, ''),
+  type: v.string,
+  change_count: v.optional(v.number),
+  change_type: v.optional(v.string),
+  children: v.optional(v.array(v.lazy(() => treeNode))),
+});
+
+const impactItem = v.object<ImpactItem>({
+  change,
+  impact: v.string,
+  severity,
+  suggestions: v.optional(v.array(v.string)),
+});
+
+export const impactAnalysis = v.object<ImpactAnalysis>({
+  collection_id: v.string,
+  snapshot_id: v.number,
+  breaking_changes: v.defaulted(v.array(impactItem), []),
+  security_changes: v.defaulted(v.array(impactItem), []),
+  data_changes: v.defaulted(v.array(impactItem), []),
+  cosmetic_changes: v.defaulted(v.array(impactItem), []),
+  summary: v.object<ImpactSummary>({
+    total_breaking: v.defaulted(v.number, 0),
+    total_security: v.defaulted(v.number, 0),
+    total_data: v.defaulted(v.number, 0),
+    total_cosmetic: v.defaulted(v.number, 0),
+    risk_score: v.defaulted(v.number, 0),
+    recommendation: v.defaulted(v.string, ''),
+  }),
+});
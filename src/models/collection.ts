@@ -0,0 +1,224 @@
+import * as v from './validate';
+
+export interface Collection {
+  id: string;
+  user_id: string;
+  name: string;
+  first_seen: string;
+  last_seen: string;
+}
+
+export interface PostmanCollection {
+  id: string;
+  name: string;
+  description?: string;
+  requests: number;
+}
+
+export interface Snapshot {
+  id: number;
+  collection_id: string;
+  snapshot_time: string;
+  collection_name: string;
+  item_count: number;
+  size_kb: number;
+  label: string | null;
+  note: string | null;
+  tags: string[];
+}
+
+// The user-editable part of a snapshot, listed separately so pickers that
+// only have snapshot ids can still show labels
+export interface SnapshotAnnotation {
+  snapshot_id: number;
+  label: string | null;
+  note: string | null;
+  tags: string[];
+}
+
+export interface SnapshotPage {
+  data: Snapshot[];
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  totalItems: number;
+}
+
+export interface PostmanRequest {
+  method: string;
+  [key: string]: any;
+}
+
+export interface SnapshotItem {
+  id?: string;
+  name: string;
+  item?: SnapshotItem[];
+  request?: PostmanRequest;
+  response?: any[];
+}
+
+export interface SnapshotItemsPage {
+  collection_id: string;
+  collection_name: string;
+  filters_applied: {
+    Fields: string;
+    Search: string;
+    ItemType: string;
+    Depth: string;
+  };
+  items: SnapshotItem[];
+  pagination: {
+    page: number;
+    page_size: number;
+    total_items: number;
+    total_pages: number;
+  };
+  snapshot_id: string;
+}
+
+export interface CompareResult {
+  path: string;
+  change_type: 'added' | 'deleted' | 'modified';
+  old_value?: string;
+  new_value?: string;
+}
+
+export const collection = v.object<Collection>({
+  id: v.string,
+  user_id: v.defaulted(v.string, ''),
+  name: v.string,
+  first_seen: v.defaulted(v.string, ''),
+  last_seen: v.defaulted(v.string, ''),
+});
+
+export const postmanCollection = v.object<PostmanCollection>({
+  id: v.string,
+  name: v.string,
+  description: v.optional(v.string),
+  requests: v.defaulted(v.number, 0),
+});
+
+export const snapshot = v.object<Snapshot>({
+  id: v.number,
+  collection_id: v.string,
+  snapshot_time: v.string,
+  collection_name: v.string,
+  item_count: v.defaulted(v.number, 0),
+  size_kb: v.defaulted(v.number, 0),
+  label: v.nullable(v.string),
+  note: v.nullable(v.string),
+  tags: v.defaulted(v.array(v.string), []),
+});
+
+export const snapshotAnnotation = v.object<SnapshotAnnotation>({
+  snapshot_id: v.number,
+  label: v.nullable(v.string),
+  note: v.nullable(v.string),
+  tags: v.defaulted(v.array(v.string), []),
+});
+
+export const snapshotId: v.Validator<number> = v.number;
+
+export const snapshotPage = v.object<SnapshotPage>({
+  data: v.defaulted(v.array(snapshot), []),
+  page: v.defaulted(v.number, 1),
+  pageSize: v.defaulted(v.number, 10),
+  totalPages: v.defaulted(v.number, 1),
+  totalItems: v.defaulted(v.number, 0),
+});
+
+const postmanRequest = v.object<PostmanRequest>({
+  method: v.string,
+});
+
+export const snapshotItem: v.Validator<SnapshotItem> = v.object<SnapshotItem>({
+  id: v.optional(v.id),
+  name: v.string,
+  item: v.optional(v.array(v.lazy(() => snapshotItem))),
+  request: v.optional(postmanRequest),
+  response: v.optional(v.array(v.unknown)),
+});
+
+export const snapshotItemsPage = v.object<SnapshotItemsPage>({
+  collection_id: v.string,
+  collection_name: v.defaulted(v.string, ''),
+  filters_applied: v.defaulted(
+    v.object({
+      Fields: v.defaulted(v.string, ''),
+      Search: v.defaulted(v.string, ''),
+      ItemType: v.defaulted(v.string, ''),
+      Depth: v.defaulted(v.string, ''),
+    }),
+    { Fields: '', Search: '', ItemType: '', Depth: '' }
+  ),
+  items: v.defaulted(v.array(snapshotItem), []),
+  pagination: v.defaulted(
+    v.object({
+      page: v.number,
+      page_size: v.number,
+      total_items: v.number,
+      total_pages: v.number,
+    }),
+    { page: 1, page_size: 0, total_items: 0, total_pages: 1 }
+  ),
+  snapshot_id: v.id,
+});
+
+export const compareResult = v.object<CompareResult>({
+  path: v.string,
+  change_type: v.literal('added', 'deleted', 'modified'),
+  old_value: v.optional(v.string),
+  new_value: v.optional(v.string),
+});
+
+// A Postman v2.x collection export as uploaded from disk. Only what we rely
+// on is checked; everything else in the file is passed through untouched.
+export interface CollectionFile {
+  info: {
+    _postman_id?: string;
+    name: string;
+    schema?: string;
+  };
+  item: SnapshotItem[];
+}
+
+export interface SavedCollection {
+  collection_id: string;
+  snapshot_id: number;
+}
+
+export const collectionFile = v.object<CollectionFile>({
+  info: v.object({
+    _postman_id: v.optional(v.string),
+    name: v.string,
+    schema: v.optional(v.string),
+  }),
+  item: v.array(snapshotItem),
+});
+
+export const savedCollection = v.object<SavedCollection>({
+  collection_id: v.id,
+  snapshot_id: v.number,
+});
+
+// "v2.3.0 release (#42)" when labelled, "Snapshot 42" otherwise
+export const describeSnapshot = (id: number, label?: string | null, isLatest = false) =>
+  `${label ? `${label} (#${id})` : `Snapshot ${id}`}${isLatest ? ' (Latest)' : ''}`;
+
+export const formatFileSize = (sizeKb: number): string => {
+  if (sizeKb < 1024) {
+    return `${sizeKb} KB`;
+  } else if (sizeKb < 1024 * 1024) {
+    return `${(sizeKb / 1024).toFixed(1)} MB`;
+  } else {
+    return `${(sizeKb / (1024 * 1024)).toFixed(1)} GB`;
+  }
+};
+
+// Tags are entered comma-separated and compared case-insensitively
+export const normalizeTags = (input: string | string[]): string[] => {
+  const tags = (Array.isArray(input) ? input : input.split(','))
+    .map(tag => tag.trim().toLowerCase())
+    .filter(Boolean);
+  return [...new Set(tags)];
+};
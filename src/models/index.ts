@@ -0,0 +1,8 @@
+export { ContractError, parse, array, nullable } from './validate';
+export type { Validator } from './validate';
+export * from './collection';
+export * from './changes';
+export * from './account';
+export * from './workspace';
+export * from './schedule';
+export * from './retention';
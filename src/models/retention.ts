@@ -0,0 +1,76 @@
+import * as v from './validate';
+
+export interface RetentionPolicy {
+  collection_id: string;
+  // Keep this many of the newest snapshots; null for no count limit
+  keep_last: number | null;
+  // Keep snapshots younger than this many days; null for no age limit
+  keep_days: number | null;
+  keep_labeled: boolean;
+}
+
+export type RetentionInput = Omit<RetentionPolicy, 'collection_id'>;
+
+export interface SnapshotUsage {
+  snapshot_count: number;
+  total_size_kb: number;
+}
+
+// What a delete or a retention run removed, or would remove for a preview
+export interface SnapshotDeletion {
+  snapshot_ids: number[];
+  freed_kb: number;
+}
+
+export const retentionPolicy = v.object<RetentionPolicy>({
+  collection_id: v.id,
+  keep_last: v.nullable(v.number),
+  keep_days: v.nullable(v.number),
+  keep_labeled: v.defaulted(v.boolean, true),
+});
+
+export const snapshotUsage = v.object<SnapshotUsage>({
+  snapshot_count: v.defaulted(v.number, 0),
+  total_size_kb: v.defaulted(v.number, 0),
+});
+
+export const snapshotDeletion = v.object<SnapshotDeletion>({
+  snapshot_ids: v.defaulted(v.array(v.number), []),
+  freed_kb: v.defaulted(v.number, 0),
+});
+
+export const retentionProblem = ({ keep_last, keep_days }: RetentionInput): string | null => {
+  if (keep_last !== null && (!Number.isInteger(keep_last) || keep_last < 1)) return 'Keep at least one snapshot';
+  if (keep_days !== null && (!Number.isInteger(keep_days) || keep_days < 1)) return 'Keep snapshots for at least one day';
+  return null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Snapshots the policy would delete. A snapshot survives if any rule keeps it,
+// and the newest one is never deleted because every diff is taken against it.
+export const snapshotsToPrune = <T extends { id: number; snapshot_time: string; label?: string | null }>(
+  newestFirst: T[],
+  policy: RetentionInput,
+  now: Date = new Date()
+): T[] => {
+  if (policy.keep_last === null && policy.keep_days === null) return [];
+  const cutoff = policy.keep_days === null ? null : now.getTime() - policy.keep_days * DAY_MS;
+  return newestFirst.filter((snapshot, index) => {
+    if (index === 0) return false;
+    if (policy.keep_labeled && snapshot.label) return false;
+    if (policy.keep_last !== null && index < policy.keep_last) return false;
+    if (cutoff !== null && new Date(snapshot.snapshot_time).getTime() >= cutoff) return false;
+    return true;
+  });
+};
+
+export const describeRetention = (policy: RetentionInput | null): string => {
+  if (!policy || (policy.keep_last === null && policy.keep_days === null)) return 'All snapshots are kept.';
+  const rules = [
+    policy.keep_last !== null && `the newest ${policy.keep_last}`,
+    policy.keep_days !== null && `everything from the last ${policy.keep_days} day${policy.keep_days === 1 ? '' : 's'}`,
+    policy.keep_labeled && 'labelled snapshots',
+  ].filter(Boolean);
+  return `Keeps ${rules.join(', ').replace(/, ([^,]*)$/, ' and $1')}; older snapshots are deleted.`;
+};
@@ -0,0 +1,139 @@
+import * as v from './validate';
+
+export type ScheduleFrequency = 'hourly' | 'daily' | 'weekly' | 'cron';
+
+export type ScheduleRunStatus = 'success' | 'failed';
+
+export interface SnapshotSchedule {
+  collection_id: string;
+  enabled: boolean;
+  frequency: ScheduleFrequency;
+  // Five-field cron expression in UTC; only set when frequency is 'cron'
+  cron: string | null;
+  // Null while the schedule is paused
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_run_status: ScheduleRunStatus | null;
+}
+
+export interface ScheduleRun {
+  id: string;
+  started_at: string;
+  status: ScheduleRunStatus;
+  // The snapshot the run created, if it succeeded
+  snapshot_id: number | null;
+  error: string | null;
+}
+
+export interface ScheduleInput {
+  enabled: boolean;
+  frequency: ScheduleFrequency;
+  cron?: string;
+}
+
+export const snapshotSchedule = v.object<SnapshotSchedule>({
+  collection_id: v.id,
+  enabled: v.boolean,
+  frequency: v.literal<ScheduleFrequency>('hourly', 'daily', 'weekly', 'cron'),
+  cron: v.nullable(v.string),
+  next_run_at: v.nullable(v.string),
+  last_run_at: v.nullable(v.string),
+  last_run_status: v.nullable(v.literal<ScheduleRunStatus>('success', 'failed')),
+});
+
+export const scheduleRun = v.object<ScheduleRun>({
+  id: v.id,
+  started_at: v.string,
+  status: v.literal<ScheduleRunStatus>('success', 'failed'),
+  snapshot_id: v.nullable(v.number),
+  error: v.nullable(v.string),
+});
+
+// The presets are fixed cron expressions, so every schedule is evaluated the same way
+export const FREQUENCY_CRON: Record<Exclude<ScheduleFrequency, 'cron'>, string> = {
+  hourly: '0 * * * *',
+  daily: '0 0 * * *',
+  weekly: '0 0 * * 1',
+};
+
+const CRON_FIELDS = [
+  { name: 'Minute', min: 0, max: 59 },
+  { name: 'Hour', min: 0, max: 23 },
+  { name: 'Day of month', min: 1, max: 31 },
+  { name: 'Month', min: 1, max: 12 },
+  { name: 'Day of week', min: 0, max: 6 },
+];
+
+// Expands one field (e.g. "*/15", "1-5", "0,30") into the values it matches
+const expandField = (field: string, min: number, max: number): number[] | null => {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) return null;
+    const start = match[1] === '*' ? min : Number(match[2]);
+    const end = match[1] === '*' ? max : match[3] !== undefined ? Number(match[3]) : match[4] ? max : start;
+    const step = match[4] ? Number(match[4]) : 1;
+    if (start < min || end > max || start > end || step < 1) return null;
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return [...values];
+};
+
+const parseCron = (expression: string) => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== CRON_FIELDS.length) return null;
+  const parsed = fields.map((field, index) => expandField(field, CRON_FIELDS[index].min, CRON_FIELDS[index].max));
+  if (!parsed.every(Boolean)) return null;
+  return { sets: (parsed as number[][]).map(values => new Set(values)), restricted: fields.map(field => !field.startsWith('*')) };
+};
+
+export const cronProblem = (expression: string): string | null => {
+  const fields = expression.trim().split(/\s+/).filter(Boolean);
+  if (fields.length !== CRON_FIELDS.length) return 'Use five fields: minute hour day-of-month month day-of-week';
+  const bad = fields.findIndex((field, index) => !expandField(field, CRON_FIELDS[index].min, CRON_FIELDS[index].max));
+  if (bad >= 0) {
+    const { name, min, max } = CRON_FIELDS[bad];
+    return `${name} must be *, a number from ${min} to ${max}, a range or a list`;
+  }
+  return null;
+};
+
+// Long enough to reach the next Feb 29 from anywhere
+const MAX_SEARCH_YEARS = 5;
+
+// Next time after `from` the expression fires, in UTC. Skips whole months,
+// days and hours that can't match rather than testing every minute.
+export const nextCronRun = (expression: string, from: Date = new Date()): Date | null => {
+  const cron = parseCron(expression);
+  if (!cron) return null;
+  const [minutes, hours, days, months, weekdays] = cron.sets;
+  // As in standard cron, restricting both day fields means either may match
+  const bothDays = cron.restricted[2] && cron.restricted[4];
+  const limit = new Date(from);
+  limit.setUTCFullYear(limit.getUTCFullYear() + MAX_SEARCH_YEARS);
+
+  const candidate = new Date(from);
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+  while (candidate <= limit) {
+    const dayOfMonth = days.has(candidate.getUTCDate());
+    const dayOfWeek = weekdays.has(candidate.getUTCDay());
+    if (!months.has(candidate.getUTCMonth() + 1)) {
+      candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+      candidate.setUTCHours(0, 0);
+    } else if (!(bothDays ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0);
+    } else if (!hours.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0);
+    } else if (!minutes.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+    } else {
+      return candidate;
+    }
+  }
+  return null;
+};
+
+export const scheduleCron = ({ frequency, cron }: Pick<ScheduleInput, 'frequency' | 'cron'>) =>
+  frequency === 'cron' ? cron ?? '' : FREQUENCY_CRON[frequency];
@@ -0,0 +1,106 @@
+// Minimal runtime validators for API payloads.
+// Each validator either returns a value of the declared type or throws a
+// ContractError pointing at the offending path, so a backend response that
+// breaks the contract fails at the service boundary instead of in a view.
+
+export type Validator<T> = (value: unknown, path: string) => T;
+
+export class ContractError extends Error {
+  readonly path: string;
+  readonly expected: string;
+
+  constructor(path: string, expected: string, received: unknown) {
+    super(`Unexpected API response at ${path}: expected ${expected}, got ${describe(received)}`);
+    this.name = 'ContractError';
+    this.path = path;
+    this.expected = expected;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+const isMissing = (value: unknown) => value === null || value === undefined;
+
+export const string: Validator<string> = (value, path) => {
+  if (typeof value !== 'string') throw new ContractError(path, 'string', value);
+  return value;
+};
+
+export const number: Validator<number> = (value, path) => {
+  if (typeof value !== 'number' || Number.isNaN(value)) throw new ContractError(path, 'number', value);
+  return value;
+};
+
+export const boolean: Validator<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') throw new ContractError(path, 'boolean', value);
+  return value;
+};
+
+// Identifiers come back as numbers from some endpoints and strings from others.
+export const id: Validator<string> = (value, path) => {
+  if (typeof value === 'number') return String(value);
+  return string(value, path);
+};
+
+export const unknown: Validator<unknown> = (value) => value;
+
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path) => (isMissing(value) ? undefined : validator(value, path));
+}
+
+export function nullable<T>(validator: Validator<T>): Validator<T | null> {
+  return (value, path) => (isMissing(value) ? null : validator(value, path));
+}
+
+export function defaulted<T>(validator: Validator<T>, fallback: T): Validator<T> {
+  return (value, path) => (isMissing(value) ? fallback : validator(value, path));
+}
+
+export function literal<T extends string>(...allowed: T[]): Validator<T> {
+  return (value, path) => {
+    if (typeof value !== 'string' || !allowed.includes(value as T)) {
+      throw new ContractError(path, allowed.map(a => `'${a}'`).join(' | '), value);
+    }
+    return value as T;
+  };
+}
+
+export function array<T>(item: Validator<T>): Validator<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new ContractError(path, 'array', value);
+    return value.map((entry, index) => item(entry, `${path}[${index}]`));
+  };
+}
+
+// Validates the declared fields and keeps any extra ones the backend sends.
+export function object<T>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new ContractError(path, 'object', value);
+    }
+    const source = value as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...source };
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const parsed = shape[key](source[key], `${path}.${key}`);
+      if (parsed === undefined) {
+        delete result[key];
+      } else {
+        result[key] = parsed;
+      }
+    }
+    return result as T;
+  };
+}
+
+// Defers resolution so recursive structures can reference themselves.
+export function lazy<T>(factory: () => Validator<T>): Validator<T> {
+  return (value, path) => factory()(value, path);
+}
+
+export function parse<T>(validator: Validator<T>, value: unknown, name: string): T {
+  return validator(value, name);
+}
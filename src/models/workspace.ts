@@ -0,0 +1,35 @@
+import * as v from './validate';
+
+export type WorkspaceRole = 'owner' | 'member';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+  member_count: number;
+  // Only sent to owners; anyone holding it can join
+  invite_code?: string;
+}
+
+export interface WorkspaceMember {
+  email: string;
+  role: WorkspaceRole;
+  // Invited members show up before they've accepted
+  status: 'active' | 'invited';
+}
+
+const workspaceRole = v.literal<WorkspaceRole>('owner', 'member');
+
+export const workspace = v.object<Workspace>({
+  id: v.id,
+  name: v.string,
+  role: workspaceRole,
+  member_count: v.defaulted(v.number, 1),
+  invite_code: v.optional(v.string),
+});
+
+export const workspaceMember = v.object<WorkspaceMember>({
+  email: v.string,
+  role: workspaceRole,
+  status: v.literal('active', 'invited'),
+});
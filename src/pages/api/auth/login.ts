@@ -0,0 +1,20 @@
+import type { APIRoute } from 'astro';
+import { loginResponse, parse } from '../../../models';
+import { backendUrl, forward, json, passThrough, profileOf, sessionFor, setSessionCookie } from '../../../server/session';
+import { resolveRole } from '../../../server/token';
+
+// Logs in against the selected backend and keeps the token server-side
+export const POST: APIRoute = async ({ request, cookies, url }) => {
+  const base = backendUrl(request, url);
+  if (!base) return json({ message: 'Unknown backend profile' }, 400);
+
+  const response = await forward(request, `${base}/auth/login`, undefined, await request.text());
+  if (!response.ok) {
+    return passThrough(response);
+  }
+
+  const { token, role: reported } = parse(loginResponse, await response.json(), 'login');
+  const role = resolveRole(reported, token);
+  setSessionCookie(cookies, url, token, profileOf(request), role);
+  return json(sessionFor(token, role));
+};
@@ -0,0 +1,7 @@
+import type { APIRoute } from 'astro';
+import { clearSessionCookie, json, sessionFor } from '../../../server/session';
+
+export const POST: APIRoute = async ({ cookies }) => {
+  clearSessionCookie(cookies);
+  return json(sessionFor(undefined, null));
+};
@@ -0,0 +1,24 @@
+import type { APIRoute } from 'astro';
+import { authorizeUrl, createPkce, findProvider, setPendingLogin } from '../../../../server/oauth';
+import { backendUrlFor } from '../../../../server/session';
+import { LOGIN_PATH, getReturnTo } from '../../../../services/returnTo';
+
+// Starts the authorization-code flow: remembers the PKCE verifier and where to
+// go afterwards, then sends the browser to the provider
+export const GET: APIRoute = async ({ params, url, cookies, redirect }) => {
+  const provider = findProvider(params.provider ?? '');
+  const profile = url.searchParams.get('profile') ?? 'prod';
+  if (!provider || !backendUrlFor(profile, url)) {
+    return redirect(`${LOGIN_PATH}?ssoError=${encodeURIComponent('That sign-in option is not available')}`);
+  }
+
+  const { verifier, challenge, state } = createPkce();
+  setPendingLogin(cookies, url, {
+    provider: provider.id,
+    state,
+    verifier,
+    profile,
+    returnTo: getReturnTo(url.search),
+  });
+  return redirect(authorizeUrl(provider, url, state, challenge));
+};
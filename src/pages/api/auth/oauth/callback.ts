@@ -0,0 +1,44 @@
+import type { APIRoute } from 'astro';
+import { loginResponse, parse } from '../../../../models';
+import { exchangeCode, findProvider, takePendingLogin } from '../../../../server/oauth';
+import { backendUrlFor, setSessionCookie } from '../../../../server/session';
+import { resolveRole } from '../../../../server/token';
+import { LOGIN_PATH } from '../../../../services/returnTo';
+
+// The provider redirects here with ?code&state. We finish PKCE, trade the
+// provider's tokens for an Integrator token and start the usual cookie session.
+export const GET: APIRoute = async ({ url, cookies, redirect }) => {
+  const fail = (message: string) => redirect(`${LOGIN_PATH}?ssoError=${encodeURIComponent(message)}`);
+
+  const pending = takePendingLogin(cookies);
+  const code = url.searchParams.get('code');
+  if (url.searchParams.get('error')) return fail('Sign-in was cancelled');
+  if (!pending || !code || url.searchParams.get('state') !== pending.state) {
+    return fail('Sign-in link expired, please try again');
+  }
+
+  const provider = findProvider(pending.provider);
+  const base = backendUrlFor(pending.profile, url);
+  if (!provider || !base) return fail('That sign-in option is not available');
+
+  try {
+    const tokens = await exchangeCode(provider, url, code, pending.verifier);
+    const response = await fetch(`${base}/auth/oauth`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ provider: provider.id, ...tokens }),
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      return fail(body.message || body.error || 'No Integrator account is linked to that identity');
+    }
+    const { token, role } = parse(loginResponse, await response.json(), 'oauthLogin');
+    setSessionCookie(cookies, url, token, pending.profile, resolveRole(role, token));
+  } catch (err) {
+    return fail(err instanceof Error ? err.message : 'Sign-in failed');
+  }
+
+  const next = new URLSearchParams({ sso: '1' });
+  if (pending.returnTo) next.set('returnTo', pending.returnTo);
+  return redirect(`${LOGIN_PATH}?${next}`);
+};
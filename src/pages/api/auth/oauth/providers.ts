@@ -0,0 +1,5 @@
+import type { APIRoute } from 'astro';
+import { json } from '../../../../server/session';
+import { enabledProviders } from '../../../../server/oauth';
+
+export const GET: APIRoute = async () => json(enabledProviders());
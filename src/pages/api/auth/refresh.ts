@@ -0,0 +1,38 @@
+import type { APIRoute } from 'astro';
+import { loginResponse, parse } from '../../../models';
+import {
+  backendUrl,
+  clearSessionCookie,
+  forward,
+  getSessionRole,
+  getSessionToken,
+  json,
+  passThrough,
+  profileMismatch,
+  profileOf,
+  sessionFor,
+  sessionMatchesProfile,
+  setSessionCookie,
+} from '../../../server/session';
+import { resolveRole } from '../../../server/token';
+
+export const POST: APIRoute = async ({ request, cookies, url }) => {
+  const base = backendUrl(request, url);
+  if (!base) return json({ message: 'Unknown backend profile' }, 400);
+
+  const token = getSessionToken(cookies);
+  if (!token) return json({ message: 'Not signed in' }, 401);
+  if (!sessionMatchesProfile(cookies, request)) return profileMismatch();
+
+  const response = await forward(request, `${base}/auth/refresh`, token, '{}');
+  if (!response.ok) {
+    if (response.status === 401) clearSessionCookie(cookies);
+    return passThrough(response);
+  }
+
+  // Keep the role from sign-in unless the refresh reports a new one
+  const { token: refreshed, role: reported } = parse(loginResponse, await response.json(), 'refresh');
+  const role = resolveRole(reported ?? getSessionRole(cookies), refreshed);
+  setSessionCookie(cookies, url, refreshed, profileOf(request), role);
+  return json(sessionFor(refreshed, role));
+};
@@ -0,0 +1,6 @@
+import type { APIRoute } from 'astro';
+import { getSessionRole, getSessionToken, json, sessionFor } from '../../../server/session';
+
+// Lets the client learn whether it is signed in, and until when, without
+// ever seeing the token
+export const GET: APIRoute = async ({ cookies }) => json(sessionFor(getSessionToken(cookies), getSessionRole(cookies)));
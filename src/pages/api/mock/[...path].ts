@@ -0,0 +1,36 @@
+import type { APIRoute } from 'astro';
+import { PUBLIC_API_MODE } from 'astro:env/client';
+import { handleMockRequest } from '../../../mock/server';
+
+const json = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json'
+    }
+  });
+
+export const ALL: APIRoute = async ({ request, params }) => {
+  if (PUBLIC_API_MODE !== 'mock' && !import.meta.env.DEV) {
+    return json({ message: 'Not found' }, 404);
+  }
+
+  const url = new URL(request.url);
+  const text = request.method === 'GET' || request.method === 'HEAD' ? '' : await request.text();
+  let body: unknown = null;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    return json({ message: 'Request body must be JSON' }, 400);
+  }
+
+  const response = handleMockRequest({
+    method: request.method,
+    path: `/${params.path ?? ''}`,
+    query: url.searchParams,
+    body,
+    token: request.headers.get('authorization')?.replace(/^Bearer /, ''),
+    workspaceId: request.headers.get('x-workspace-id') ?? undefined,
+  });
+  return json(response.body, response.status);
+};
@@ -0,0 +1,48 @@
+import type { APIRoute } from 'astro';
+import {
+  backendUrl,
+  forward,
+  getSessionToken,
+  json,
+  profileMismatch,
+  sessionMatchesProfile,
+} from '../../../server/session';
+
+// Headers worth passing back to the browser; everything else (cookies from the
+// backend, hop-by-hop headers) stays here
+const RESPONSE_HEADERS = ['content-type', 'retry-after', 'x-request-id'];
+
+const PROXY_PREFIX = '/api/proxy/';
+
+// Rebuilds the backend path one segment at a time from the raw request path,
+// so an encoded "/" stays inside its segment and dot segments can't climb out
+// of the API base. Undefined when the path is unusable.
+const backendPath = (pathname: string): string | undefined => {
+  try {
+    const segments = pathname.slice(PROXY_PREFIX.length).split('/').map(decodeURIComponent);
+    if (segments.some(segment => segment === '.' || segment === '..')) return undefined;
+    return segments.map(encodeURIComponent).join('/');
+  } catch {
+    return undefined;
+  }
+};
+
+export const ALL: APIRoute = async ({ request, cookies, url }) => {
+  const base = backendUrl(request, url);
+  if (!base) return json({ message: 'Unknown backend profile' }, 400);
+  // Never hand the session token to a backend that didn't issue it
+  if (!sessionMatchesProfile(cookies, request)) return profileMismatch();
+
+  const path = backendPath(url.pathname);
+  if (path === undefined) return json({ message: 'Invalid path' }, 400);
+
+  const body = request.method === 'GET' || request.method === 'HEAD' ? undefined : await request.arrayBuffer();
+  const response = await forward(request, `${base}/${path}${url.search}`, getSessionToken(cookies), body);
+
+  const headers = new Headers();
+  for (const name of RESPONSE_HEADERS) {
+    const value = response.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+  return new Response(response.body, { status: response.status, headers });
+};
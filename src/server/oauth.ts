@@ -0,0 +1,136 @@
+import { createHash, randomBytes } from 'node:crypto';
+import type { AstroCookies } from 'astro';
+import {
+  OAUTH_GITHUB_CLIENT_ID,
+  OAUTH_GITHUB_CLIENT_SECRET,
+  OAUTH_GOOGLE_CLIENT_ID,
+  OAUTH_GOOGLE_CLIENT_SECRET,
+  OAUTH_REDIRECT_ORIGIN,
+} from 'astro:env/server';
+import type { OAuthProvider } from '../models';
+
+interface ProviderConfig extends OAuthProvider {
+  clientId?: string;
+  clientSecret?: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  scope: string;
+}
+
+// Round-tripped through the provider in an httpOnly cookie so the callback can
+// check `state` and finish PKCE without any server-side storage
+export interface PendingLogin {
+  provider: string;
+  state: string;
+  verifier: string;
+  profile: string;
+  returnTo?: string;
+}
+
+// What the provider hands back; the backend verifies it and issues our token
+export interface ProviderTokens {
+  access_token: string;
+  id_token?: string;
+}
+
+const PROVIDERS: ProviderConfig[] = [
+  {
+    id: 'google',
+    label: 'Google',
+    clientId: OAUTH_GOOGLE_CLIENT_ID,
+    clientSecret: OAUTH_GOOGLE_CLIENT_SECRET,
+    authorizeUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenUrl: 'https://oauth2.googleapis.com/token',
+    scope: 'openid email profile',
+  },
+  {
+    id: 'github',
+    label: 'GitHub',
+    clientId: OAUTH_GITHUB_CLIENT_ID,
+    clientSecret: OAUTH_GITHUB_CLIENT_SECRET,
+    authorizeUrl: 'https://github.com/login/oauth/authorize',
+    tokenUrl: 'https://github.com/login/oauth/access_token',
+    scope: 'read:user user:email',
+  },
+];
+
+const PENDING_COOKIE = 'integrator_oauth';
+// Long enough to get through a provider's consent screen
+const PENDING_MAX_AGE = 10 * 60;
+
+export const enabledProviders = (): OAuthProvider[] =>
+  PROVIDERS.filter(p => p.clientId).map(({ id, label }) => ({ id, label }));
+
+export const findProvider = (id: string) => PROVIDERS.find(p => p.id === id && p.clientId);
+
+const base64url = (buffer: Buffer) => buffer.toString('base64url');
+
+export const createPkce = () => {
+  const verifier = base64url(randomBytes(32));
+  const challenge = base64url(createHash('sha256').update(verifier).digest());
+  return { verifier, challenge, state: base64url(randomBytes(16)) };
+};
+
+export const callbackUrl = (url: URL) => new URL('/api/auth/oauth/callback', OAUTH_REDIRECT_ORIGIN ?? url.origin).href;
+
+export const authorizeUrl = (provider: ProviderConfig, url: URL, state: string, challenge: string) => {
+  const target = new URL(provider.authorizeUrl);
+  target.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.clientId!,
+    redirect_uri: callbackUrl(url),
+    scope: provider.scope,
+    state,
+    code_challenge: challenge,
+    code_challenge_method: 'S256',
+  }).toString();
+  return target.href;
+};
+
+export const exchangeCode = async (
+  provider: ProviderConfig,
+  url: URL,
+  code: string,
+  verifier: string
+): Promise<ProviderTokens> => {
+  const response = await fetch(provider.tokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: callbackUrl(url),
+      client_id: provider.clientId!,
+      client_secret: provider.clientSecret ?? '',
+      code_verifier: verifier,
+    }),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || typeof body.access_token !== 'string') {
+    throw new Error(body.error_description || body.error || `${provider.label} rejected the sign-in`);
+  }
+  return { access_token: body.access_token, id_token: body.id_token };
+};
+
+export const setPendingLogin = (cookies: AstroCookies, url: URL, pending: PendingLogin) => {
+  cookies.set(PENDING_COOKIE, JSON.stringify(pending), {
+    path: '/api/auth/oauth',
+    httpOnly: true,
+    // Lax still sends it on the provider's top-level redirect back to us
+    sameSite: 'lax',
+    secure: url.protocol === 'https:',
+    maxAge: PENDING_MAX_AGE,
+  });
+};
+
+// Single use: read and cleared in one go so a callback can't be replayed
+export const takePendingLogin = (cookies: AstroCookies): PendingLogin | undefined => {
+  const value = cookies.get(PENDING_COOKIE)?.value;
+  cookies.delete(PENDING_COOKIE, { path: '/api/auth/oauth' });
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,100 @@
+import type { AstroCookies } from 'astro';
+import { API_BASE_URL } from 'astro:env/server';
+import { getProfiles, PROFILE_HEADER } from '../config/apiProfiles';
+import { SESSION_COOKIE, SESSION_PROFILE_COOKIE, SESSION_ROLE_COOKIE, getTokenExpiry, resolveRole } from './token';
+import type { Role, Session } from '../models';
+
+export const json = (body: unknown, status = 200, headers: HeadersInit = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers,
+    },
+  });
+
+// Maps the profile the browser picked onto a backend URL. Only configured
+// profiles resolve, so the proxy can't be pointed at an arbitrary host.
+export const profileOf = (request: Request) => request.headers.get(PROFILE_HEADER) ?? 'prod';
+
+export const backendUrl = (request: Request, url: URL): string | undefined =>
+  backendUrlFor(profileOf(request), url);
+
+export const backendUrlFor = (id: string, url: URL): string | undefined => {
+  const profile = getProfiles().find(p => p.id === id);
+  if (!profile) return undefined;
+  const baseUrl = profile.id === 'prod' && API_BASE_URL ? API_BASE_URL : profile.baseUrl;
+  // The mock profile is a path on this server
+  return new URL(baseUrl, url).href.replace(/\/$/, '');
+};
+
+export const getSessionToken = (cookies: AstroCookies) => cookies.get(SESSION_COOKIE)?.value;
+
+// Sessions from before the role was recorded fall back to the token's claim
+export const getSessionRole = (cookies: AstroCookies): Role | null => {
+  const token = getSessionToken(cookies);
+  return token ? resolveRole(cookies.get(SESSION_ROLE_COOKIE)?.value, token) : null;
+};
+
+// False when there is a session but it was issued by another backend than the
+// one this request targets. Sessions from before the profile was recorded
+// don't match anything and have to sign in again.
+export const sessionMatchesProfile = (cookies: AstroCookies, request: Request) =>
+  !getSessionToken(cookies) || cookies.get(SESSION_PROFILE_COOKIE)?.value === profileOf(request);
+
+export const profileMismatch = () =>
+  json({ message: 'Your session belongs to a different backend. Sign in again to use this one.' }, 401);
+
+export const setSessionCookie = (cookies: AstroCookies, url: URL, token: string, profile: string, role: Role) => {
+  const expiry = getTokenExpiry(token);
+  const options = {
+    path: '/',
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: url.protocol === 'https:',
+    maxAge: expiry === undefined ? undefined : Math.max(0, Math.floor((expiry - Date.now()) / 1000)),
+  } as const;
+  cookies.set(SESSION_COOKIE, token, options);
+  cookies.set(SESSION_PROFILE_COOKIE, profile, options);
+  cookies.set(SESSION_ROLE_COOKIE, role, options);
+};
+
+export const clearSessionCookie = (cookies: AstroCookies) => {
+  cookies.delete(SESSION_COOKIE, { path: '/' });
+  cookies.delete(SESSION_PROFILE_COOKIE, { path: '/' });
+  cookies.delete(SESSION_ROLE_COOKIE, { path: '/' });
+};
+
+export const sessionFor = (token: string | undefined, role: Role | null): Session => ({
+  authenticated: !!token,
+  expiresAt: token ? getTokenExpiry(token) ?? null : null,
+  role: token ? role : null,
+});
+
+// Calls the backend on the browser's behalf, attaching the session token
+export const forward = async (
+  request: Request,
+  target: string,
+  token: string | undefined,
+  body?: BodyInit
+): Promise<Response> => {
+  const headers = new Headers();
+  for (const name of ['content-type', 'accept', 'x-workspace-id']) {
+    const value = request.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+
+  try {
+    return await fetch(target, { method: request.method, headers, body, signal: request.signal });
+  } catch {
+    return json({ message: 'Backend unreachable' }, 502);
+  }
+};
+
+// Hands a backend failure to the browser unchanged
+export const passThrough = (response: Response) =>
+  new Response(response.body, {
+    status: response.status,
+    headers: { 'Content-Type': response.headers.get('content-type') ?? 'application/json' },
+  });
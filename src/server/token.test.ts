@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { getTokenRole, resolveRole } from './token';
+
+const tokenWith = (claims: Record<string, unknown>) =>
+  `${btoa(JSON.stringify({ alg: 'none' }))}.${btoa(JSON.stringify(claims)).replace(/=+$/, '')}.sig`;
+
+describe('resolveRole', () => {
+  it('uses the role reported in the login payload', () => {
+    expect(resolveRole('editor', 'opaque-token')).toBe('editor');
+    expect(resolveRole('admin', tokenWith({ role: 'viewer' }))).toBe('admin');
+  });
+
+  it("falls back to the token's claim when the payload has no role", () => {
+    expect(resolveRole(undefined, tokenWith({ role: 'editor' }))).toBe('editor');
+    expect(resolveRole('owner', tokenWith({ role: 'admin' }))).toBe('admin');
+  });
+
+  it('gives viewer when neither source has a known role', () => {
+    expect(resolveRole(undefined, 'opaque-token')).toBe('viewer');
+    expect(getTokenRole(tokenWith({ sub: '1' }))).toBe('viewer');
+  });
+});
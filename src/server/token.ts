@@ -0,0 +1,46 @@
+import { ROLES, type Role } from '../models';
+
+// httpOnly cookie holding the backend token; set and read only by the Astro
+// server (auth routes, proxy and middleware)
+export const SESSION_COOKIE = 'integrator_session';
+
+// The backend profile the session token was issued by; the token is only ever
+// sent back to that backend
+export const SESSION_PROFILE_COOKIE = 'integrator_session_profile';
+
+// The role the backend reported when the session was issued
+export const SESSION_ROLE_COOKIE = 'integrator_session_role';
+
+// Decodes a JWT payload without verifying it; the backend is the one that
+// decides. Opaque tokens yield an empty claim set.
+const readClaims = (token: string): Record<string, unknown> => {
+  const payload = token.split('.')[1];
+  if (!payload) return {};
+  try {
+    const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    return claims && typeof claims === 'object' ? claims : {};
+  } catch {
+    return {};
+  }
+};
+
+// Milliseconds since epoch, or undefined when the token carries no expiry
+export const getTokenExpiry = (token: string): number | undefined => {
+  const { exp } = readClaims(token);
+  return typeof exp === 'number' ? exp * 1000 : undefined;
+};
+
+// Tokens without a readable expiry are trusted until the server says otherwise
+export const isTokenExpired = (token: string, skewMs = 0) => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== undefined && expiry - skewMs <= Date.now();
+};
+
+const asRole = (value: unknown): Role | undefined => (ROLES.includes(value as Role) ? (value as Role) : undefined);
+
+// Tokens without a recognised role claim get the least privilege rather than the most
+export const getTokenRole = (token: string): Role => asRole(readClaims(token).role) ?? 'viewer';
+
+// A role reported alongside the token wins; the claim is only read when there
+// is none, for backends that keep the role in the token alone
+export const resolveRole = (reported: unknown, token: string): Role => asRole(reported) ?? getTokenRole(token);
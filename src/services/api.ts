@@ -1,59 +1,168 @@
 import axios from 'axios';
-import type { AxiosError, AxiosResponse } from 'axios';
-
-export const BASE_URL = 'https://integrator-api.verbgh.com/integrator/api/v1';
-
-interface SnapshotDiffParams {
+import type { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import * as models from '../models';
+import { parse } from '../models';
+import { getActiveProfile, PROFILE_HEADER } from '../config/apiProfiles';
+import { getActiveWorkspaceId, setActiveWorkspaceId, WORKSPACE_HEADER } from '../config/workspace';
+import { fetchQuery, invalidateQueries } from './queryCache';
+import { scheduleRetry } from './retryPolicy';
+import { toApiError } from './apiError';
+import { loginUrl } from './returnTo';
+
+export interface SnapshotDiffParams {
   pageSize?: number;
   page?: number;
   filterType?: string;
   sortOrder?: string;
+  search?: string;
+  groupBy?: string;
+}
+
+export interface RequestOptions {
+  // Aborting rejects the call with an error that isAbortError recognises
+  signal?: AbortSignal;
 }
 
+export const isAbortError = (error: unknown): boolean => axios.isCancel(error);
+
+// Cache keys for the read endpoints. Everything scoped to one collection sits
+// under ['collections', id] so it can be invalidated in one go.
+export const queryKeys = {
+  account: () => ['account'] as const,
+  apiKeys: () => ['api-keys'] as const,
+  workspaces: () => ['workspaces'] as const,
+  workspaceMembers: (id: string) => ['workspaces', id, 'members'] as const,
+  postmanCollections: () => ['postman-collections'] as const,
+  // Listed through a specific Postman key, or the default one
+  postmanCollectionsFor: (apiKeyId?: string) => ['postman-collections', apiKeyId ?? 'default'] as const,
+  collections: () => ['collections'] as const,
+  userCollections: () => ['collections', 'user'] as const,
+  collection: (id: string) => ['collections', id] as const,
+  snapshots: (id: string, page: number, pageSize: number, tag?: string) =>
+    ['collections', id, 'snapshots', page, pageSize, tag ?? ''] as const,
+  snapshotAnnotations: (id: string) => ['collections', id, 'annotations'] as const,
+  snapshotUsage: (id: string) => ['collections', id, 'usage'] as const,
+  retention: (id: string) => ['collections', id, 'retention'] as const,
+  compareResults: (id: string) => ['collections', id, 'compare'] as const,
+  snapshotItems: (id: string, snapshotId: string, query: Record<string, unknown>) =>
+    ['collections', id, 'items', snapshotId, query] as const,
+  summary: (id: string) => ['collections', id, 'summary'] as const,
+  schedule: (id: string) => ['collections', id, 'schedule'] as const,
+  scheduleRuns: (id: string) => ['collections', id, 'schedule', 'runs'] as const,
+  changes: (id: string) => ['collections', id, 'changes'] as const,
+  hierarchy: (id: string, snapshotId: number) => ['collections', id, 'hierarchy', snapshotId] as const,
+  impactAnalysis: (id: string, snapshotId: number) => ['collections', id, 'impact', snapshotId] as const,
+  snapshotIds: (id: string) => ['collections', id, 'snapshot-ids'] as const,
+  snapshotComparison: (id: string, one?: number, two?: number) => ['collections', id, 'snapshot-compare', one, two] as const,
+  snapshotDiff: (id: string, snapshotId: number, params?: SnapshotDiffParams) =>
+    ['collections', id, 'diff', snapshotId, params ?? {}] as const,
+};
+
+// Some endpoints wrap their payload in `{ data }`, others return it bare.
+const unwrap = (body: any) => (body && typeof body === 'object' && 'data' in body ? body.data : body);
 
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Set once a request has been replayed after re-authentication
+    authReplayed?: boolean;
+  }
+}
+
+// Installed by AuthProvider. Resolves true once the session is valid again
+// (silent refresh or re-login), false if the user gave up.
+type AuthRequiredHandler = () => Promise<boolean>;
+
+let authRequiredHandler: AuthRequiredHandler | undefined;
+let pendingReauth: Promise<boolean> | undefined;
+
+export const setAuthRequiredHandler = (handler: AuthRequiredHandler | undefined) => {
+  authRequiredHandler = handler;
+};
+
+// Every request that hits a 401 while re-auth is underway waits on the same
+// promise, then replays in order with the new token.
+const waitForReauth = (handler: AuthRequiredHandler) => {
+  if (!pendingReauth) {
+    pendingReauth = handler()
+      .catch(() => false)
+      .finally(() => {
+        pendingReauth = undefined;
+      });
+  }
+  return pendingReauth;
+};
+
+// The browser never talks to the backend directly: calls go through the Astro
+// proxy, which attaches the token from the httpOnly session cookie.
 const api = axios.create({
-  baseURL: BASE_URL,
+  baseURL: '/api/proxy',
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
+// Login, refresh and logout are handled by the Astro server itself
+const authApi = axios.create({
+  baseURL: '/api/auth',
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
 
-api.interceptors.request.use((config) => {
-  const token = localStorage.getItem('user_auth_token');
-  if (token) {
-    config.headers.Authorization = `Bearer ${token}`;
-  }
+const withProfile = (config: InternalAxiosRequestConfig) => {
+  // Resolved per request so a profile switch takes effect without a rebuild
+  config.headers[PROFILE_HEADER] = getActiveProfile().id;
   return config;
-});
+};
+
+const withWorkspace = (config: InternalAxiosRequestConfig) => {
+  const workspaceId = getActiveWorkspaceId();
+  if (workspaceId) config.headers[WORKSPACE_HEADER] = workspaceId;
+  return config;
+};
+
+api.interceptors.request.use(withProfile);
+api.interceptors.request.use(withWorkspace);
+authApi.interceptors.request.use(withProfile);
+
+authApi.interceptors.response.use(
+  (response: AxiosResponse) => response,
+  (error: AxiosError) => Promise.reject(isAbortError(error) ? error : toApiError(error))
+);
 
 
 api.interceptors.response.use(
   (response: AxiosResponse) => response,
   async (error: AxiosError) => {
-    const originalRequest = error.config;
-    
-
-    if (error.response?.status === 401) {
-      localStorage.removeItem('user_auth_token');
-      window.location.href = '/';
+    if (isAbortError(error)) {
       return Promise.reject(error);
     }
 
-
-    if (error.response?.status === 429) {
-      const retryAfter = error.response.headers['retry-after'];
-      await new Promise(resolve => setTimeout(resolve, (parseInt(retryAfter) || 60) * 1000));
-      return api(originalRequest!);
+    // A 401 blaming the Postman key is not an expired session and is left for
+    // the caller to report
+    const apiError = toApiError(error);
+    const config = error.config;
+    if (apiError.code === 'unauthorized' && config) {
+      if (!authRequiredHandler) {
+        // Pages without an AuthProvider can't re-authenticate in place
+        await authApi.post('/logout', {}).catch(() => undefined);
+        window.location.href = loginUrl(window.location.pathname + window.location.search);
+        return Promise.reject(apiError);
+      }
+      if (!config.authReplayed && (await waitForReauth(authRequiredHandler))) {
+        config.authReplayed = true;
+        return api(config);
+      }
+      return Promise.reject(apiError);
     }
 
-   
-    if (!error.response) {
-      return Promise.reject(new Error('Network error. Please check your connection.'));
+    const retryConfig = await scheduleRetry(error);
+    if (retryConfig) {
+      return api(retryConfig);
     }
 
-    const errorMessage = error.response.data?.message || error.message || 'An error occurred';
-    return Promise.reject(new Error(errorMessage));
+    return Promise.reject(apiError);
   }
 );
 
@@ -64,134 +173,378 @@ export const authService = {
     return response.data;
   },
 
-  login: async (email: string, password: string) => {
-    const response = await api.post('/auth/login', { email, password });
-    const { token } = response.data;
-    localStorage.setItem('user_auth_token', token);
-    return response.data;
+  login: async (email: string, password: string): Promise<models.Session> => {
+    const response = await authApi.post('/login', { email, password });
+    return parse(models.session, response.data, 'login');
   },
 
-  logout: () => {
-    localStorage.removeItem('user_auth_token');
+  // Exchanges the current token for a fresh one before it lapses
+  refresh: async (): Promise<models.Session> => {
+    const response = await authApi.post('/refresh', {});
+    return parse(models.session, response.data, 'refresh');
   },
-};
 
+  getOAuthProviders: async (): Promise<models.OAuthProvider[]> => {
+    const response = await authApi.get('/oauth/providers');
+    return parse(models.array(models.oauthProvider), response.data, 'oauthProviders');
+  },
 
-export const apiKeyService = {
-  saveApiKey: async (apiKey: string) => {
-    const response = await api.post('/api-key', { api_key: apiKey });
-    return response.data;
+  // Full-page navigation: the server sets up PKCE and redirects to the provider
+  startOAuthLogin: (providerId: string, returnTo?: string) => {
+    const params = new URLSearchParams({ profile: getActiveProfile().id });
+    if (returnTo) params.set('returnTo', returnTo);
+    window.location.href = `/api/auth/oauth/${encodeURIComponent(providerId)}?${params}`;
   },
 
-  getApiKeys: async () => {
-    const response = await api.get('/keys/api-keys');
-    return response.data;
+  getSession: async (): Promise<models.Session> => {
+    const response = await authApi.get('/session');
+    return parse(models.session, response.data, 'session');
   },
 
-  deleteApiKey: async (id: string) => {
-    const response = await api.delete(`/keys/api-key/${id}`);
+  logout: async () => {
+    invalidateQueries([]);
+    // The next user to sign in here may not belong to it
+    setActiveWorkspaceId(null);
+    await authApi.post('/logout', {});
+  },
+
+  // Always succeeds so the response doesn't reveal whether the email is registered
+  requestPasswordReset: async (email: string) => {
+    const response = await api.post('/auth/forgot-password', { email });
     return response.data;
   },
-};
 
-// Collection services
-export const collectionService = {
-  getCollections: async () => {
-    const response = await api.get('/collections');
+  resetPassword: async (token: string, password: string) => {
+    const response = await api.post('/auth/reset-password', { token, password });
     return response.data;
   },
 
-  getUserCollections: async () => {
-    const response = await api.get('/collections/user');
+  verifyEmail: async (token: string) => {
+    const response = await api.post('/auth/verify-email', { token });
+    invalidateQueries(queryKeys.account());
     return response.data;
   },
 
-  saveCollection: async (collectionId: string, name: string) => {
-    const response = await api.post('/collections/save-collection', { collection_id: collectionId, name });
+  resendVerification: async () => {
+    const response = await api.post('/auth/resend-verification', {});
     return response.data;
   },
 
-  getCollectionDetails: async (id: string) => {
-    const response = await api.get(`/collections/${id}`);
+  getAccount: (): Promise<models.Account> =>
+    fetchQuery(queryKeys.account(), async signal => {
+      const response = await api.get('/account', { signal });
+      return parse(models.account, response.data, 'account');
+    }),
+
+  updateEmail: async (email: string, currentPassword: string) => {
+    const response = await api.put('/account/email', { email, current_password: currentPassword });
+    invalidateQueries(queryKeys.account());
     return response.data;
   },
 
-  getCollectionSnapshots: async (id: string, page = 1, pageSize = 10) => {
-    const response = await api.get(`/collections/${id}/snapshots`, {
-      params: { page, pageSize },
-    });
+  changePassword: async (currentPassword: string, newPassword: string) => {
+    const response = await api.put('/account/password', { current_password: currentPassword, new_password: newPassword });
     return response.data;
   },
+};
+
+
+export const apiKeyService = {
+  // The backend checks the key against Postman before storing it
+  saveApiKey: async ({ name, apiKey, isDefault }: models.NewApiKey): Promise<models.ApiKey> => {
+    const response = await api.post('/api-key', { name, api_key: apiKey, is_default: isDefault });
+    invalidateQueries(queryKeys.apiKeys());
+    invalidateQueries(queryKeys.postmanCollections());
+    return parse(models.apiKey, response.data, 'apiKey');
+  },
+
+  // Replaces the secret but keeps the id, so collections imported through the
+  // key stay linked to it
+  rotateApiKey: async (id: string, apiKey: string): Promise<models.ApiKey> => {
+    const response = await api.put(`/keys/api-key/${id}`, { api_key: apiKey });
+    invalidateQueries(queryKeys.apiKeys());
+    invalidateQueries(queryKeys.postmanCollections());
+    return parse(models.apiKey, response.data, 'apiKey');
+  },
 
-  compareSnapshots: async (id: string) => {
-    const response = await api.get(`/collections/compare/${id}`);
+  setDefaultApiKey: async (id: string) => {
+    const response = await api.put(`/keys/api-key/${id}/default`, {});
+    invalidateQueries(queryKeys.apiKeys());
+    invalidateQueries(queryKeys.postmanCollections());
     return response.data;
   },
 
-  getCollectionChanges: async (id: string) => {
-    const response = await api.get(`/collections/${id}/changes`);
+  getApiKeys: (): Promise<models.ApiKey[]> =>
+    fetchQuery(queryKeys.apiKeys(), async signal => {
+      const response = await api.get('/keys/api-keys', { signal });
+      return parse(models.array(models.apiKey), response.data, 'apiKeys');
+    }),
+
+  deleteApiKey: async (id: string) => {
+    const response = await api.delete(`/keys/api-key/${id}`);
+    invalidateQueries(queryKeys.apiKeys());
+    invalidateQueries(queryKeys.postmanCollections());
     return response.data;
   },
 };
 
-//snapshot services
+export const workspaceService = {
+  getWorkspaces: (): Promise<models.Workspace[]> =>
+    fetchQuery(queryKeys.workspaces(), async signal => {
+      const response = await api.get('/workspaces', { signal });
+      return parse(models.array(models.workspace), response.data, 'workspaces');
+    }),
+
+  createWorkspace: async (name: string): Promise<models.Workspace> => {
+    const response = await api.post('/workspaces', { name });
+    invalidateQueries(queryKeys.workspaces());
+    return parse(models.workspace, response.data, 'workspace');
+  },
 
-export const snapshotService = {
-  // id = collection id
-  getSnapshotFolders: async (snapshotId: string, id: string, itemSize: number) => {
-    const response = await api.get(`/collections/${id}/snapshots/${snapshotId}/items?fields=name&page_size=${itemSize}`);
-    return response.data;
+  joinWorkspace: async (inviteCode: string): Promise<models.Workspace> => {
+    const response = await api.post('/workspaces/join', { invite_code: inviteCode });
+    invalidateQueries(queryKeys.workspaces());
+    return parse(models.workspace, response.data, 'workspace');
   },
 
-    getEndPointDetails: async (snapshotId: string, id: string, search: string) => {
-    const response = await api.get(`/collections/${id}/snapshots/${snapshotId}/items?search=${search}`);
+  getMembers: (id: string): Promise<models.WorkspaceMember[]> =>
+    fetchQuery(queryKeys.workspaceMembers(id), async signal => {
+      const response = await api.get(`/workspaces/${id}/members`, { signal });
+      return parse(models.array(models.workspaceMember), response.data, 'workspaceMembers');
+    }),
+
+  inviteMember: async (id: string, email: string) => {
+    const response = await api.post(`/workspaces/${id}/invitations`, { email });
+    invalidateQueries(queryKeys.workspaces());
     return response.data;
   },
 
-  refreshSnapShots: async (collectionId: string, collectionName: string) => {
-      const response = await api.post('/collections/save-collection', { collection_id: collectionId, name: collectionName });
+  shareCollection: async (id: string, collectionId: string) => {
+    const response = await api.post(`/workspaces/${id}/collections`, { collection_id: collectionId });
+    invalidateQueries(queryKeys.collections());
     return response.data;
-  }
-
+  },
 
+  // Everything cached was read under the previous workspace
+  switchWorkspace: (id: string | null) => {
+    setActiveWorkspaceId(id);
+    invalidateQueries([]);
+  },
 };
 
-// collection changes
-export const changesService = {
-  getSummary: async (collectionId: string) => {
-    const response = await api.get(`/collections/${collectionId}/change/summary`)
+// Collection services
+export const collectionService = {
+  getCollections: (apiKeyId?: string): Promise<models.PostmanCollection[]> =>
+    fetchQuery(queryKeys.postmanCollectionsFor(apiKeyId), async signal => {
+      const response = await api.get('/collections', { params: { api_key_id: apiKeyId }, signal });
+      return parse(models.array(models.postmanCollection), response.data, 'postmanCollections');
+    }),
+
+  getUserCollections: (options?: RequestOptions): Promise<models.Collection[]> =>
+    fetchQuery(queryKeys.userCollections(), async signal => {
+      const response = await api.get('/collections/user', { signal });
+      return parse(models.array(models.collection), response.data, 'collections');
+    }, options),
+
+  saveCollection: async (collectionId: string, name: string, apiKeyId?: string, options?: RequestOptions) => {
+    const response = await api.post(
+      '/collections/save-collection',
+      { collection_id: collectionId, name, api_key_id: apiKeyId },
+      { signal: options?.signal }
+    );
+    invalidateQueries(queryKeys.collections());
     return response.data;
   },
-  getChanges: async (collectionId: string) => {
-     const response = await api.get(`/collections/${collectionId}/changes`)
-    return response.data;
+
+  // Sends the whole export so collections outside the user's Postman account
+  // (private workspaces, partner handoffs) can be versioned too
+  uploadCollection: async (file: models.CollectionFile): Promise<models.SavedCollection> => {
+    const response = await api.post('/collections/upload', { collection: file });
+    invalidateQueries(queryKeys.collections());
+    return parse(models.savedCollection, response.data, 'uploadCollection');
   },
-  getHierarchy: async (collectionId: string, snapShotId: number) => {
-      const response = await api.get(`/collections/${collectionId}/snapshots/${snapShotId}/hierarchy`)
+
+  getCollectionDetails: async (id: string) => {
+    const response = await api.get(`/collections/${id}`);
     return response.data;
   },
-  getImpactAnalysis: async (collectionId: string, snapshotId: number) => {
-      const response = await api.get(`/collections/${collectionId}/snapshots/${snapshotId}/impact-analysis`)
-    return response.data;
+
+  // `tag` limits the page to snapshots carrying that tag
+  getCollectionSnapshots: (id: string, page = 1, pageSize = 10, tag?: string, options?: RequestOptions): Promise<models.SnapshotPage> =>
+    fetchQuery(queryKeys.snapshots(id, page, pageSize, tag), async signal => {
+      const response = await api.get(`/collections/${id}/snapshots`, {
+        params: { page, pageSize, tag },
+        signal,
+      });
+      return parse(models.snapshotPage, response.data, 'snapshots');
+    }, options),
+
+  compareSnapshots: (id: string): Promise<models.CompareResult[]> =>
+    fetchQuery(queryKeys.compareResults(id), async signal => {
+      const response = await api.get(`/collections/compare/${id}`, { signal });
+      return parse(models.array(models.compareResult), response.data, 'compareResults');
+    }),
+
+  getCollectionChanges: async (id: string): Promise<models.RecentChange[]> => {
+    const response = await api.get(`/collections/${id}/changes`);
+    return parse(models.array(models.recentChange), response.data?.changes ?? [], 'changes');
+  },
+};
+
+// Scheduled snapshots are taken by the backend; these only manage the schedule
+export const scheduleService = {
+  // Null when the collection has no schedule
+  getSchedule: (collectionId: string): Promise<models.SnapshotSchedule | null> =>
+    fetchQuery(queryKeys.schedule(collectionId), async signal => {
+      const response = await api.get(`/collections/${collectionId}/schedule`, { signal });
+      return parse(models.nullable(models.snapshotSchedule), response.data, 'schedule');
+    }),
+
+  saveSchedule: async (collectionId: string, input: models.ScheduleInput): Promise<models.SnapshotSchedule> => {
+    const response = await api.put(`/collections/${collectionId}/schedule`, input);
+    invalidateQueries(queryKeys.schedule(collectionId));
+    return parse(models.snapshotSchedule, response.data, 'schedule');
   },
-  getCollectionSnapshots: async (collectionId: string) => {
-    const response = await api.get(`/collections/${collectionId}/snapshot-id`);
+
+  deleteSchedule: async (collectionId: string) => {
+    const response = await api.delete(`/collections/${collectionId}/schedule`);
+    invalidateQueries(queryKeys.schedule(collectionId));
     return response.data;
   },
 
-  compareSnapshots: async (collectionId: string, snapShotIdOne?: number, snapShotIdTwo?: number) => {
-    const response = await api.get(`/collections/snapshot/compare/${collectionId}`,  { params: {snapShotIdOne, snapShotIdTwo},
-    })
+  getRuns: (collectionId: string): Promise<models.ScheduleRun[]> =>
+    fetchQuery(queryKeys.scheduleRuns(collectionId), async signal => {
+      const response = await api.get(`/collections/${collectionId}/schedule/runs`, { signal });
+      return parse(models.array(models.scheduleRun), response.data, 'scheduleRuns');
+    }),
+};
+
+// Retention runs on the backend whenever a snapshot is added or the policy is saved
+export const retentionService = {
+  // Null when the collection keeps every snapshot
+  getPolicy: (collectionId: string, options?: RequestOptions): Promise<models.RetentionPolicy | null> =>
+    fetchQuery(queryKeys.retention(collectionId), async signal => {
+      const response = await api.get(`/collections/${collectionId}/retention`, { signal });
+      return parse(models.nullable(models.retentionPolicy), response.data, 'retention');
+    }, options),
+
+  // Which snapshots saving `input` would delete, without changing anything
+  previewPolicy: async (collectionId: string, input: models.RetentionInput, options?: RequestOptions): Promise<models.SnapshotDeletion> => {
+    const response = await api.post(`/collections/${collectionId}/retention/preview`, input, { signal: options?.signal });
+    return parse(models.snapshotDeletion, response.data, 'retentionPreview');
+  },
+
+  savePolicy: async (collectionId: string, input: models.RetentionInput): Promise<models.SnapshotDeletion> => {
+    const response = await api.put(`/collections/${collectionId}/retention`, input);
+    // Saving applies the policy straight away, so snapshots may have gone
+    invalidateQueries(queryKeys.collection(collectionId));
+    return parse(models.snapshotDeletion, response.data, 'retention');
+  },
+
+  deletePolicy: async (collectionId: string) => {
+    const response = await api.delete(`/collections/${collectionId}/retention`);
+    invalidateQueries(queryKeys.retention(collectionId));
     return response.data;
   },
+};
+
+//snapshot services
+
+export const snapshotService = {
+  // id = collection id
+  getSnapshotFolders: (snapshotId: string, id: string, itemSize: number, options?: RequestOptions): Promise<models.SnapshotItemsPage> =>
+    fetchQuery(queryKeys.snapshotItems(id, snapshotId, { itemSize }), async signal => {
+      const response = await api.get(`/collections/${id}/snapshots/${snapshotId}/items?fields=name&page_size=${itemSize}`, { signal });
+      return parse(models.snapshotItemsPage, unwrap(response.data), 'snapshotItems');
+    }, options),
+
+    getEndPointDetails: (snapshotId: string, id: string, search: string, options?: RequestOptions): Promise<models.SnapshotItemsPage> =>
+    fetchQuery(queryKeys.snapshotItems(id, snapshotId, { search }), async signal => {
+      const response = await api.get(`/collections/${id}/snapshots/${snapshotId}/items?search=${encodeURIComponent(search)}`, { signal });
+      return parse(models.snapshotItemsPage, unwrap(response.data), 'snapshotItems');
+    }, options),
+
+  // Labels, notes and tags for every annotated snapshot in the collection
+  getAnnotations: (collectionId: string, options?: RequestOptions): Promise<models.SnapshotAnnotation[]> =>
+    fetchQuery(queryKeys.snapshotAnnotations(collectionId), async signal => {
+      const response = await api.get(`/collections/${collectionId}/snapshots/annotations`, { signal });
+      return parse(models.array(models.snapshotAnnotation), unwrap(response.data) ?? [], 'snapshotAnnotations');
+    }, options),
+
+  annotateSnapshot: async (
+    collectionId: string,
+    snapshotId: number,
+    annotation: Omit<models.SnapshotAnnotation, 'snapshot_id'>
+  ): Promise<models.SnapshotAnnotation> => {
+    const response = await api.put(`/collections/${collectionId}/snapshots/${snapshotId}/annotation`, annotation);
+    // Labels show up in the snapshot list and every picker for the collection
+    invalidateQueries(queryKeys.collection(collectionId));
+    return parse(models.snapshotAnnotation, response.data, 'snapshotAnnotation');
+  },
+
+  getUsage: (collectionId: string, options?: RequestOptions): Promise<models.SnapshotUsage> =>
+    fetchQuery(queryKeys.snapshotUsage(collectionId), async signal => {
+      const response = await api.get(`/collections/${collectionId}/snapshots/usage`, { signal });
+      return parse(models.snapshotUsage, response.data, 'snapshotUsage');
+    }, options),
+
+  deleteSnapshots: async (collectionId: string, snapshotIds: number[]): Promise<models.SnapshotDeletion> => {
+    const response = await api.post(`/collections/${collectionId}/snapshots/delete`, { snapshot_ids: snapshotIds });
+    invalidateQueries(queryKeys.collection(collectionId));
+    return parse(models.snapshotDeletion, response.data, 'deleteSnapshots');
+  },
+
+  refreshSnapShots: async (collectionId: string, collectionName: string, options?: RequestOptions) => {
+      const response = await api.post('/collections/save-collection', { collection_id: collectionId, name: collectionName }, { signal: options?.signal });
+    invalidateQueries(queryKeys.collections());
+    return response.data;
+  }
 
 
+};
 
-  getSnapshotDiff: async (
+// collection changes
+export const changesService = {
+  getSummary: (collectionId: string, options?: RequestOptions): Promise<models.Summary> =>
+    fetchQuery(queryKeys.summary(collectionId), async signal => {
+      const response = await api.get(`/collections/${collectionId}/change/summary`, { signal })
+      return parse(models.summary, response.data, 'summary');
+    }, options),
+  getChanges: (collectionId: string, options?: RequestOptions): Promise<models.RecentChange[]> =>
+    fetchQuery(queryKeys.changes(collectionId), async signal => {
+      const response = await api.get(`/collections/${collectionId}/changes`, { signal })
+      return parse(models.array(models.recentChange), response.data?.changes ?? [], 'changes');
+    }, options),
+  getHierarchy: (collectionId: string, snapShotId: number, options?: RequestOptions): Promise<models.TreeNode> =>
+    fetchQuery(queryKeys.hierarchy(collectionId, snapShotId), async signal => {
+      const response = await api.get(`/collections/${collectionId}/snapshots/${snapShotId}/hierarchy`, { signal })
+      return parse(models.treeNode, response.data, 'hierarchy');
+    }, options),
+  getImpactAnalysis: (collectionId: string, snapshotId: number, options?: RequestOptions): Promise<models.ImpactAnalysis> =>
+    fetchQuery(queryKeys.impactAnalysis(collectionId, snapshotId), async signal => {
+      const response = await api.get(`/collections/${collectionId}/snapshots/${snapshotId}/impact-analysis`, { signal })
+      return parse(models.impactAnalysis, response.data, 'impactAnalysis');
+    }, options),
+  getCollectionSnapshots: (collectionId: string, options?: RequestOptions): Promise<number[]> =>
+    fetchQuery(queryKeys.snapshotIds(collectionId), async signal => {
+      const response = await api.get(`/collections/${collectionId}/snapshot-id`, { signal });
+      return parse(models.array(models.snapshotId), unwrap(response.data) ?? [], 'snapshotIds');
+    }, options),
+
+  compareSnapshots: (collectionId: string, snapShotIdOne?: number, snapShotIdTwo?: number, options?: RequestOptions): Promise<models.ImpactAnalysis> =>
+    fetchQuery(queryKeys.snapshotComparison(collectionId, snapShotIdOne, snapShotIdTwo), async signal => {
+      const response = await api.get(`/collections/snapshot/compare/${collectionId}`, { params: {snapShotIdOne, snapShotIdTwo}, signal })
+      return parse(models.impactAnalysis, response.data, 'compareSnapshots');
+    }, options),
+
+
+
+  getSnapshotDiff: (
     collectionId: string, 
     snapshotId: number, 
-    params?: SnapshotDiffParams
-  ) => {
+    params?: SnapshotDiffParams,
+    options?: RequestOptions
+  ): Promise<models.DiffResponse> => fetchQuery(queryKeys.snapshotDiff(collectionId, snapshotId, params), async signal => {
     const queryParams = new URLSearchParams();
     
     if (params?.pageSize) {
@@ -206,13 +559,19 @@ export const changesService = {
     if (params?.sortOrder) {
       queryParams.append('sortOrder', params.sortOrder);
     }
+    if (params?.search) {
+      queryParams.append('search', params.search);
+    }
+    if (params?.groupBy) {
+      queryParams.append('groupBy', params.groupBy);
+    }
 
     const queryString = queryParams.toString();
     const url = `/collections/${collectionId}/changes/diff/${snapshotId}${queryString ? `?${queryString}` : ''}`;
     
-    const response = await api.get(url);
-    return response.data;
-  },
+    const response = await api.get(url, { signal });
+    return parse(models.diffResponse, response.data, 'snapshotDiff');
+  }, options),
 
 };
 
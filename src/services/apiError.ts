@@ -0,0 +1,159 @@
+import type { AxiosError } from 'axios';
+import { ContractError } from '../models';
+
+export type ApiErrorCode =
+  | 'network'
+  | 'timeout'
+  | 'bad_request'
+  | 'validation'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'rate_limited'
+  | 'invalid_api_key'
+  | 'server'
+  | 'unknown';
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// Shapes the backend has been seen to use for error bodies
+interface ErrorBody {
+  error?: string;
+  message?: string;
+  code?: string;
+  request_id?: string;
+  errors?: FieldError[] | Record<string, string | string[]>;
+}
+
+interface ApiErrorInit {
+  status?: number;
+  serverCode?: string;
+  requestId?: string;
+  retryable?: boolean;
+  fieldErrors?: FieldError[];
+}
+
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status?: number;
+  // The backend's own error code, when it sends one
+  readonly serverCode?: string;
+  readonly requestId?: string;
+  readonly retryable: boolean;
+  readonly fieldErrors: FieldError[];
+
+  constructor(message: string, code: ApiErrorCode, init: ApiErrorInit = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = init.status;
+    this.serverCode = init.serverCode;
+    this.requestId = init.requestId;
+    this.retryable = init.retryable ?? false;
+    this.fieldErrors = init.fieldErrors ?? [];
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+const fieldErrorsOf = (body: ErrorBody | undefined): FieldError[] => {
+  const errors = body?.errors;
+  if (!errors) return [];
+  if (Array.isArray(errors)) {
+    return errors.filter(e => e && typeof e.field === 'string' && typeof e.message === 'string');
+  }
+  return Object.entries(errors).map(([field, message]) => ({
+    field,
+    message: Array.isArray(message) ? message.join(', ') : String(message),
+  }));
+};
+
+// The backend reports a bad or revoked Postman key with a generic 400/401/403;
+// the only reliable signal is its code or wording.
+const mentionsApiKey = (body: ErrorBody | undefined) =>
+  /api[\s_-]?key/i.test(`${body?.code ?? ''} ${body?.error ?? ''} ${body?.message ?? ''}`);
+
+const codeForStatus = (status: number, body: ErrorBody | undefined, fieldErrors: FieldError[]): ApiErrorCode => {
+  if ([400, 401, 403].includes(status) && mentionsApiKey(body)) return 'invalid_api_key';
+  if (status === 400 || status === 422) return fieldErrors.length > 0 ? 'validation' : 'bad_request';
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 409) return 'conflict';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+const RETRYABLE_CODES: ApiErrorCode[] = ['network', 'timeout', 'rate_limited'];
+
+export const toApiError = (error: AxiosError): ApiError => {
+  if (!error.response) {
+    const timedOut = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
+    return timedOut
+      ? new ApiError('The server took too long to respond.', 'timeout', { retryable: true })
+      : new ApiError('Network error. Please check your connection.', 'network', { retryable: true });
+  }
+
+  const { status, headers } = error.response;
+  const body = (error.response.data && typeof error.response.data === 'object'
+    ? error.response.data
+    : undefined) as ErrorBody | undefined;
+  const fieldErrors = fieldErrorsOf(body);
+  const code = codeForStatus(status, body, fieldErrors);
+  const requestId = headers?.['x-request-id'] ?? body?.request_id;
+  const retryable = RETRYABLE_CODES.includes(code) || [502, 503, 504].includes(status);
+
+  return new ApiError(body?.error || body?.message || error.message || 'An error occurred', code, {
+    status,
+    serverCode: body?.code,
+    requestId,
+    retryable,
+    fieldErrors,
+  });
+};
+
+// Turns any caught error into a sentence for the UI. `resource` names the
+// thing being loaded so a 404 reads "Collection not found" rather than a
+// generic failure; `fallback` covers anything not worth distinguishing.
+export const describeError = (error: unknown, fallback: string, resource?: string): string => {
+  if (error instanceof ContractError) {
+    return 'The server sent a response this app does not understand.';
+  }
+  if (!isApiError(error)) return fallback;
+
+  const reference = error.requestId ? ` (request ${error.requestId})` : '';
+  switch (error.code) {
+    case 'network':
+    case 'timeout':
+      return error.message;
+    case 'invalid_api_key':
+      return 'Postman API key is invalid or has been revoked. Update it under Settings.';
+    case 'not_found':
+      return resource ? `${resource} not found.` : fallback;
+    case 'rate_limited':
+      return 'Rate limited by the server. Please wait a moment and try again.';
+    case 'forbidden':
+      return "You don't have permission to do that.";
+    case 'unauthorized':
+      return error.message || 'Your session has expired. Please sign in again.';
+    case 'validation':
+      return error.fieldErrors.map(e => `${e.field}: ${e.message}`).join('; ');
+    case 'bad_request':
+    case 'conflict':
+      return error.message || fallback;
+    case 'server':
+      return `${fallback}: server error${reference}`;
+    default:
+      return `${fallback}${reference}`;
+  }
+};
+
+// When saving a key, Postman's rejection is the answer itself rather than a
+// prompt to go and fix Settings
+export const describeApiKeyError = (error: unknown, fallback: string): string =>
+  isApiError(error) && error.code === 'invalid_api_key' ? error.message : describeError(error, fallback, 'API key');
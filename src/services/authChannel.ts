@@ -0,0 +1,51 @@
+import type { Session } from '../models';
+
+export type AuthEvent =
+  | { type: 'login'; session: Session }
+  | { type: 'refresh'; session: Session }
+  | { type: 'logout' };
+
+const CHANNEL_NAME = 'integrator-auth';
+// Fallback for browsers without BroadcastChannel: a storage write fires a
+// `storage` event in every other tab
+const STORAGE_KEY = 'integrator_auth_event';
+
+let channel: BroadcastChannel | undefined;
+
+const getChannel = () => {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+};
+
+// Tells every other open tab about a session change; the sending tab is not notified
+export const postAuthEvent = (event: AuthEvent) => {
+  const current = getChannel();
+  if (current) {
+    current.postMessage(event);
+    return;
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...event, at: Date.now() }));
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+export const subscribeAuthEvents = (listener: (event: AuthEvent) => void) => {
+  const current = getChannel();
+  if (current) {
+    const onMessage = (message: MessageEvent<AuthEvent>) => listener(message.data);
+    current.addEventListener('message', onMessage);
+    return () => current.removeEventListener('message', onMessage);
+  }
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY || !event.newValue) return;
+    try {
+      listener(JSON.parse(event.newValue));
+    } catch {
+      // Ignore anything we didn't write
+    }
+  };
+  window.addEventListener('storage', onStorage);
+  return () => window.removeEventListener('storage', onStorage);
+};
@@ -0,0 +1,18 @@
+// Runs worker over items with at most `limit` calls in flight, starting them
+// in order. Once the signal aborts no further items are started; the promise
+// settles when the ones already running do. Workers are expected to handle
+// their own errors, so one failure doesn't stop the rest.
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal
+) => {
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length && !signal?.aborted) {
+      await worker(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, lane));
+};
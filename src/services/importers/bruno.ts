@@ -0,0 +1,153 @@
+import type { CollectionFile, SnapshotItem } from '../../models';
+import { bearerAuth, importId, itemId, POSTMAN_SCHEMA, rawBody, slug, urlFromRaw, Warnings } from './shared';
+
+// A Bruno collection is a folder of .bru files plus a bruno.json, which
+// arrives here zipped. Folders map onto Postman folders; each .bru file is
+// one request.
+
+type Blocks = Map<string, string[]>;
+
+const METHODS = ['get', 'post', 'put', 'patch', 'delete', 'options', 'head'];
+
+const SKIPPED_BLOCKS: Record<string, string> = {
+  'script:pre-request': 'Pre-request scripts were not imported',
+  'script:post-response': 'Post-response scripts were not imported',
+  tests: 'Tests were not imported',
+  assert: 'Assertions were not imported',
+  'vars:pre-request': 'Request variables were not imported',
+  'vars:post-response': 'Request variables were not imported',
+};
+
+// Top-level `name {` ... `}` blocks, with their two-space indent removed
+const parseBlocks = (text: string): Blocks => {
+  const blocks: Blocks = new Map();
+  let current: string[] | undefined;
+  for (const line of text.split(/\r?\n/)) {
+    const open = /^([\w:-]+)\s*\{\s*$/.exec(line);
+    if (!current && open) {
+      current = [];
+      blocks.set(open[1], current);
+    } else if (current && line === '}') {
+      current = undefined;
+    } else if (current) {
+      current.push(line.replace(/^ {2}/, ''));
+    }
+  }
+  return blocks;
+};
+
+// `key: value` lines; a leading ~ marks an entry as disabled
+const parseDictionary = (lines: string[] = []) =>
+  lines
+    .filter(line => line.trim() && !line.trimStart().startsWith('~'))
+    .map(line => {
+      const index = line.indexOf(':');
+      return { key: line.slice(0, index).trim(), value: line.slice(index + 1).trim() };
+    })
+    .filter(entry => entry.key);
+
+const toRequest = (fileName: string, text: string, warnings: Warnings): { seq: number; host: string; item: SnapshotItem } | undefined => {
+  const blocks = parseBlocks(text);
+  const meta = Object.fromEntries(parseDictionary(blocks.get('meta')).map(e => [e.key, e.value]));
+  if (meta.type === 'graphql') warnings.add('GraphQL requests were imported as plain HTTP requests');
+
+  const method = METHODS.find(m => blocks.has(m));
+  if (!method) {
+    warnings.add('Files without an HTTP method block were skipped');
+    return undefined;
+  }
+  const settings = Object.fromEntries(parseDictionary(blocks.get(method)).map(e => [e.key, e.value]));
+  const url = urlFromRaw(settings.url ?? '');
+  for (const param of parseDictionary(blocks.get('params:query') ?? blocks.get('query'))) {
+    if (!url.query.some(q => q.key === param.key)) url.query.push(param);
+  }
+
+  const bodyMode: string = settings.body ?? 'none';
+  const bodyText = (blocks.get(`body:${bodyMode}`) ?? []).join('\n').trim();
+  if (['form-urlencoded', 'multipart-form'].includes(bodyMode)) warnings.add('Form bodies were imported without their fields');
+
+  const authMode: string = settings.auth ?? 'none';
+  if (!['none', 'bearer', 'inherit'].includes(authMode)) warnings.add(`${authMode} authentication isn't shown; only bearer tokens are`);
+  const token = parseDictionary(blocks.get('auth:bearer')).find(e => e.key === 'token')?.value;
+
+  for (const name of blocks.keys()) {
+    if (SKIPPED_BLOCKS[name]) warnings.add(SKIPPED_BLOCKS[name]);
+  }
+
+  const upper = method.toUpperCase();
+  return {
+    seq: Number(meta.seq ?? 0),
+    host: url.host[0] ?? '',
+    item: {
+      id: itemId(upper, url),
+      name: meta.name || fileName.replace(/\.bru$/, ''),
+      request: {
+        method: upper,
+        description: blocks.get('docs')?.join('\n').trim() || undefined,
+        url,
+        header: parseDictionary(blocks.get('headers')),
+        auth: authMode === 'bearer' && token ? bearerAuth(token) : undefined,
+        body: rawBody(['json', 'text', 'xml'].includes(bodyMode) ? bodyText : '', bodyMode === 'json' ? 'json' : undefined),
+      },
+      response: [],
+    },
+  };
+};
+
+export const isBrunoArchive = (files: Map<string, string>) => [...files.keys()].some(path => /(^|\/)bruno\.json$/.test(path));
+
+export const brunoToCollection = (files: Map<string, string>) => {
+  const warnings = new Warnings();
+  // The zip may wrap the collection in a top-level folder
+  const configPath = [...files.keys()].filter(path => /(^|\/)bruno\.json$/.test(path)).sort((a, b) => a.length - b.length)[0];
+  const root = configPath.slice(0, -'bruno.json'.length);
+  let name = 'Bruno collection';
+  try {
+    name = JSON.parse(files.get(configPath) ?? '{}').name || name;
+  } catch {
+    warnings.add('bruno.json could not be read; the collection was given a default name');
+  }
+
+  type Folder = { items: { seq: number; item: SnapshotItem }[]; folders: Map<string, Folder> };
+  const tree: Folder = { items: [], folders: new Map() };
+  const hosts = new Set<string>();
+
+  for (const [path, text] of files) {
+    if (!path.startsWith(root) || !path.endsWith('.bru')) continue;
+    const segments = path.slice(root.length).split('/');
+    const fileName = segments.pop()!;
+    if (segments[0] === 'environments') {
+      warnings.add('Environments were not imported; {{variables}} are left unresolved');
+      continue;
+    }
+    if (fileName === 'folder.bru' || fileName === 'collection.bru') {
+      if (parseBlocks(text).size > 1) warnings.add('Folder and collection level settings were not imported');
+      continue;
+    }
+    const converted = toRequest(fileName, text, warnings);
+    if (!converted) continue;
+    if (converted.host) hosts.add(converted.host);
+    const folder = segments.reduce((node, segment) => {
+      if (!node.folders.has(segment)) node.folders.set(segment, { items: [], folders: new Map() });
+      return node.folders.get(segment)!;
+    }, tree);
+    folder.items.push(converted);
+  }
+
+  const toItems = (folder: Folder, path: string): SnapshotItem[] => [
+    ...[...folder.folders]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([segment, child]) => ({ id: `folder-${slug(`${path}-${segment}`)}`, name: segment, item: toItems(child, `${path}-${segment}`) })),
+    ...folder.items.sort((a, b) => a.seq - b.seq).map(entry => entry.item),
+  ];
+
+  const collection: CollectionFile = {
+    info: {
+      _postman_id: importId('bruno', name, [...hosts].sort().join(',')),
+      name,
+      schema: POSTMAN_SCHEMA,
+    },
+    item: toItems(tree, ''),
+  };
+  return { collection, warnings: warnings.list() };
+};
@@ -0,0 +1,96 @@
+import type { CollectionFile, SnapshotItem } from '../../models';
+import { bearerAuth, importId, itemId, POSTMAN_SCHEMA, rawBody, slug, urlFromRaw, Warnings } from './shared';
+
+// HAR 1.2 archives record traffic, not a collection: each distinct method and
+// path becomes one request, grouped into a folder per host, with the first
+// captured response kept as its example.
+
+type Entry = Record<string, any>;
+
+// Credentials in a capture belong to whoever recorded it, not the collection
+const SENSITIVE_HEADERS = ['authorization', 'cookie', 'set-cookie', 'proxy-authorization', 'x-api-key'];
+// Transport details that only add noise to a diff
+const HOP_HEADERS = ['host', 'content-length', 'connection', 'accept-encoding', 'user-agent', 'origin', 'referer'];
+
+export const isHar = (doc: unknown): doc is Entry =>
+  !!doc && typeof doc === 'object' && Array.isArray((doc as Entry).log?.entries);
+
+const keptHeaders = (headers: Entry[] = [], warnings: Warnings) =>
+  headers
+    .filter(h => !h.name.startsWith(':') && !HOP_HEADERS.includes(h.name.toLowerCase()))
+    .filter(h => {
+      if (!SENSITIVE_HEADERS.includes(h.name.toLowerCase())) return true;
+      warnings.add(`${h.name} headers were removed`);
+      return false;
+    })
+    .map(h => ({ key: h.name, value: String(h.value ?? '') }));
+
+const toItem = (entry: Entry, warnings: Warnings): { host: string; item: SnapshotItem } | undefined => {
+  let target: URL;
+  try {
+    target = new URL(entry.request?.url);
+  } catch {
+    warnings.add('Entries with unreadable URLs were skipped');
+    return undefined;
+  }
+  const method = String(entry.request.method ?? 'GET').toUpperCase();
+  const url = urlFromRaw(`{{baseUrl}}${target.pathname}${target.search}`);
+  const hadBearer = (entry.request.headers ?? []).some((h: Entry) =>
+    h.name.toLowerCase() === 'authorization' && /^bearer /i.test(h.value ?? ''));
+
+  const content = entry.response?.content ?? {};
+  if (content.encoding === 'base64') warnings.add('Binary response bodies were left out');
+  const responseBody = content.encoding === 'base64' ? '' : content.text ?? '';
+
+  return {
+    host: target.host,
+    item: {
+      id: itemId(method, url),
+      name: `${method} ${target.pathname}`,
+      request: {
+        method,
+        url,
+        header: keptHeaders(entry.request.headers, warnings),
+        auth: hadBearer ? bearerAuth('{{token}}') : undefined,
+        body: rawBody(entry.request.postData?.text ?? '', entry.request.postData?.mimeType?.includes('json') ? 'json' : undefined),
+      },
+      response: entry.response?.status
+        ? [{
+            name: `${method} ${target.pathname} - ${entry.response.status}`,
+            code: entry.response.status,
+            status: entry.response.statusText ?? '',
+            header: keptHeaders(entry.response.headers, warnings),
+            body: responseBody,
+          }]
+        : [],
+    },
+  };
+};
+
+export const harToCollection = (doc: Entry, fileName: string) => {
+  const warnings = new Warnings();
+  const folders = new Map<string, SnapshotItem[]>();
+
+  for (const entry of doc.log.entries as Entry[]) {
+    const converted = toItem(entry, warnings);
+    if (!converted) continue;
+    const items = folders.get(converted.host) ?? [];
+    if (items.some(i => i.id === converted.item.id)) {
+      warnings.add('Repeated calls to the same endpoint were merged');
+      continue;
+    }
+    folders.set(converted.host, [...items, converted.item]);
+  }
+  if (folders.size > 1) warnings.add('Requests from several hosts share one {{baseUrl}}; set it per folder after importing');
+
+  const name = fileName.replace(/\.har$/i, '');
+  const collection: CollectionFile = {
+    info: {
+      _postman_id: importId('har', name, [...folders.keys()].sort().join(',')),
+      name,
+      schema: POSTMAN_SCHEMA,
+    },
+    item: [...folders].map(([host, item]) => ({ id: `folder-${slug(host)}`, name: host, item })),
+  };
+  return { collection, warnings: warnings.list() };
+};
@@ -0,0 +1,91 @@
+import { parse as parseYaml } from 'yaml';
+import { collectionFile, parse, type CollectionFile } from '../../models';
+import { brunoToCollection, isBrunoArchive } from './bruno';
+import { harToCollection, isHar } from './har';
+import { insomniaToCollection, isInsomniaExport } from './insomnia';
+import { isOpenApi, openApiToCollection, specVersion } from './openapi';
+import { isPostmanCollection, normalizePostman, postmanSchemaProblems, postmanVersion } from './postman';
+import { readZip, ZipFormatError } from './zip';
+
+export { collectionVariables, countFolders, countRequests, flattenRequests } from './shared';
+
+// Turns an uploaded file into a Postman-shaped collection ready for
+// collectionService.uploadCollection, whatever format it arrived in.
+
+export class ImportFormatError extends Error {
+  // Individual schema violations, when the file was recognised but is malformed
+  readonly problems: string[];
+
+  constructor(message: string, problems: string[] = []) {
+    super(message);
+    this.name = 'ImportFormatError';
+    this.problems = problems;
+  }
+}
+
+export interface ImportedFile {
+  collection: CollectionFile;
+  // Human-readable source format, e.g. "Postman collection" or "OpenAPI 3.0.3"
+  format: string;
+  // Parts of the source the collection format can't represent
+  warnings: string[];
+}
+
+const YAML_EXTENSION = /\.ya?ml$/i;
+const ZIP_EXTENSION = /\.zip$/i;
+
+const readDocument = (text: string, fileName: string): unknown => {
+  try {
+    return YAML_EXTENSION.test(fileName) ? parseYaml(text) : JSON.parse(text);
+  } catch {
+    throw new ImportFormatError(`${fileName} is not valid ${YAML_EXTENSION.test(fileName) ? 'YAML' : 'JSON'}`);
+  }
+};
+
+// Converted files go through the same schema check as uploaded Postman
+// collections, so nothing reaches the backend that it would reject
+const requireRequests = (imported: ImportedFile, fileName: string) => {
+  const problems = postmanSchemaProblems(imported.collection);
+  if (problems.length) throw new ImportFormatError(`${fileName} couldn't be converted to a valid collection`, problems);
+  if (imported.collection.item.length === 0) throw new ImportFormatError(`${fileName} doesn't contain any requests`);
+  return imported;
+};
+
+const convertArchive = async (file: File): Promise<ImportedFile> => {
+  let files: Map<string, string>;
+  try {
+    files = await readZip(await file.arrayBuffer());
+  } catch (err) {
+    throw new ImportFormatError(err instanceof ZipFormatError ? `${file.name}: ${err.message}` : `${file.name} could not be unzipped`);
+  }
+  if (!isBrunoArchive(files)) throw new ImportFormatError(`${file.name} doesn't contain a Bruno collection (no bruno.json)`);
+  return requireRequests({ ...brunoToCollection(files), format: 'Bruno collection' }, file.name);
+};
+
+export const ACCEPTED_EXTENSIONS = '.json,.yaml,.yml,.har,.zip';
+
+export const convertFile = async (file: File): Promise<ImportedFile> => {
+  if (ZIP_EXTENSION.test(file.name)) return convertArchive(file);
+
+  const doc = readDocument(await file.text(), file.name);
+
+  if (isOpenApi(doc)) {
+    return requireRequests({ ...openApiToCollection(doc), format: specVersion(doc) }, file.name);
+  }
+  if (isInsomniaExport(doc)) {
+    return requireRequests({ ...insomniaToCollection(doc), format: 'Insomnia v4 export' }, file.name);
+  }
+  if (isHar(doc)) {
+    return requireRequests({ ...harToCollection(doc, file.name), format: `HAR ${doc.log.version ?? '1.2'}` }, file.name);
+  }
+
+  if (!isPostmanCollection(doc)) {
+    throw new ImportFormatError(`${file.name} isn't a Postman, Insomnia, HAR or OpenAPI/Swagger file`);
+  }
+  const problems = postmanSchemaProblems(doc);
+  if (problems.length) throw new ImportFormatError(`${file.name} doesn't match the Postman collection schema`, problems);
+  return requireRequests(
+    { collection: parse(collectionFile, normalizePostman(doc), 'collection'), format: `Postman collection ${postmanVersion(doc)}`, warnings: [] },
+    file.name
+  );
+};
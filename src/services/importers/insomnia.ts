@@ -0,0 +1,94 @@
+import type { CollectionFile, SnapshotItem } from '../../models';
+import { bearerAuth, importId, itemId, POSTMAN_SCHEMA, rawBody, urlFromRaw, Warnings } from './shared';
+
+// Insomnia v4 exports are a flat list of resources linked by parentId
+
+type Resource = Record<string, any>;
+
+export const isInsomniaExport = (doc: unknown): doc is Resource =>
+  !!doc && typeof doc === 'object' && (doc as Resource)._type === 'export' && (doc as Resource).__export_format === 4;
+
+// {{ _.baseUrl }} is Insomnia's environment syntax; Postman's is {{baseUrl}}
+const toPostmanVariables = (value: string, warnings: Warnings) => {
+  if (/\{%.*?%\}/.test(value)) warnings.add('Template tags ({% ... %}) were kept as plain text');
+  return value.replace(/\{\{\s*_\.([\w.-]+)\s*\}\}/g, '{{$1}}');
+};
+
+const SKIPPED_TYPES: Record<string, string> = {
+  grpc_request: 'gRPC requests were skipped',
+  websocket_request: 'WebSocket requests were skipped',
+  unit_test_suite: 'Unit test suites were skipped',
+  unit_test: 'Unit test suites were skipped',
+  api_spec: 'Design documents were skipped; import the spec file itself instead',
+};
+
+const toRequest = (resource: Resource, warnings: Warnings): SnapshotItem => {
+  const method = String(resource.method ?? 'GET').toUpperCase();
+  const url = urlFromRaw(toPostmanVariables(resource.url ?? '', warnings));
+  for (const { name, value, disabled } of resource.parameters ?? []) {
+    if (!disabled) url.query.push({ key: name, value: toPostmanVariables(String(value ?? ''), warnings) });
+  }
+
+  const auth = resource.authentication ?? {};
+  if (auth.type && auth.type !== 'bearer' && auth.type !== 'none') {
+    warnings.add(`${auth.type} authentication isn't shown; only bearer tokens are`);
+  }
+
+  const body = resource.body ?? {};
+  if (body.params?.length) warnings.add('Form bodies were imported without their fields');
+  if (body.mimeType === 'application/graphql') warnings.add('GraphQL bodies were imported as raw JSON');
+
+  return {
+    id: itemId(method, url),
+    name: resource.name || `${method} ${url.raw}`,
+    request: {
+      method,
+      description: resource.description || undefined,
+      url,
+      header: (resource.headers ?? [])
+        .filter((h: Resource) => !h.disabled)
+        .map((h: Resource) => ({ key: h.name, value: toPostmanVariables(String(h.value ?? ''), warnings) })),
+      auth: auth.type === 'bearer' && !auth.disabled ? bearerAuth(toPostmanVariables(auth.token ?? '', warnings)) : undefined,
+      body: rawBody(toPostmanVariables(body.text ?? '', warnings), body.mimeType?.includes('json') ? 'json' : undefined),
+    },
+    response: [],
+  };
+};
+
+export const insomniaToCollection = (doc: Resource) => {
+  const warnings = new Warnings();
+  const resources: Resource[] = doc.resources ?? [];
+  const workspace = resources.find(r => r._type === 'workspace');
+  const childrenOf = (parentId: string): SnapshotItem[] =>
+    resources
+      .filter(r => r.parentId === parentId)
+      .sort((a, b) => (a.metaSortKey ?? 0) - (b.metaSortKey ?? 0))
+      .flatMap((r): SnapshotItem[] => {
+        if (r._type === 'request') return [toRequest(r, warnings)];
+        if (r._type === 'request_group') return [{ id: `folder-${r._id}`, name: r.name, item: childrenOf(r._id) }];
+        if (SKIPPED_TYPES[r._type]) warnings.add(SKIPPED_TYPES[r._type]);
+        return [];
+      });
+
+  const roots = workspace ? childrenOf(workspace._id) : childrenOf('__WORKSPACE_ID__');
+  if (resources.some(r => r._type === 'environment')) {
+    warnings.add('Environments were not imported; {{variables}} are left unresolved');
+  }
+  if (resources.some(r => r._type === 'cookie_jar' && r.cookies?.length)) {
+    warnings.add('Cookie jars were not imported');
+  }
+
+  const name: string = workspace?.name ?? 'Insomnia export';
+  // Exports can share a workspace id, so the hosts they call go into the id too
+  const hosts = new Set(resources.filter(r => r._type === 'request').map(r => urlFromRaw(r.url ?? '').host[0]).filter(Boolean));
+  const collection: CollectionFile = {
+    info: {
+      _postman_id: importId('insomnia', name, [workspace?._id ?? '', ...[...hosts].sort()].join(',')),
+      name,
+      description: workspace?.description || undefined,
+      schema: POSTMAN_SCHEMA,
+    } as CollectionFile['info'],
+    item: roots,
+  };
+  return { collection, warnings: warnings.list() };
+};
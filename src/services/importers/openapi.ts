@@ -0,0 +1,231 @@
+import type { CollectionFile, PostmanRequest, SnapshotItem } from '../../models';
+import { importId, POSTMAN_SCHEMA, slug, Warnings } from './shared';
+
+// Converts OpenAPI 3.x and Swagger 2.0 documents into the Postman item tree
+// the snapshot views already understand. Operations are grouped into folders
+// by their first tag, and ids are derived from method and path so the same
+// endpoint lines up across snapshots of successive spec versions.
+
+type Doc = Record<string, any>;
+
+const METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+const STATUS_TEXT: Record<string, string> = {
+  200: 'OK', 201: 'Created', 202: 'Accepted', 204: 'No Content',
+  301: 'Moved Permanently', 302: 'Found', 304: 'Not Modified',
+  400: 'Bad Request', 401: 'Unauthorized', 403: 'Forbidden', 404: 'Not Found',
+  409: 'Conflict', 422: 'Unprocessable Entity', 429: 'Too Many Requests',
+  500: 'Internal Server Error', 502: 'Bad Gateway', 503: 'Service Unavailable',
+};
+
+// Deep enough for real schemas; stops self-referencing ones from recursing forever
+const MAX_EXAMPLE_DEPTH = 6;
+
+export const isOpenApi = (doc: unknown): doc is Doc =>
+  !!doc && typeof doc === 'object' &&
+  (String((doc as Doc).openapi ?? '').startsWith('3.') || (doc as Doc).swagger === '2.0');
+
+export const specVersion = (doc: Doc) => (doc.openapi ? `OpenAPI ${doc.openapi}` : `Swagger ${doc.swagger}`);
+
+const refTarget = (doc: Doc, ref: string): any =>
+  ref
+    .slice(2)
+    .split('/')
+    .map(part => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((node: any, part) => node?.[part], doc);
+
+// A chain of references that leads back to itself (A -> B -> A) resolves to
+// an empty object instead of recursing forever
+const resolve = (doc: Doc, value: any, seen = new Set<string>()): any => {
+  if (!value || typeof value !== 'object' || typeof value.$ref !== 'string') return value;
+  if (!value.$ref.startsWith('#/') || seen.has(value.$ref)) return {};
+  seen.add(value.$ref);
+  return resolve(doc, refTarget(doc, value.$ref) ?? {}, seen);
+};
+
+const isCircular = (doc: Doc, ref: string) => {
+  const seen = new Set<string>();
+  let value: any = { $ref: ref };
+  while (value && typeof value === 'object' && typeof value.$ref === 'string' && value.$ref.startsWith('#/')) {
+    if (seen.has(value.$ref)) return true;
+    seen.add(value.$ref);
+    value = refTarget(doc, value.$ref);
+  }
+  return false;
+};
+
+// Builds a plausible example from a schema when the spec doesn't carry one
+const exampleFor = (doc: Doc, raw: any, depth = 0): unknown => {
+  const schema = resolve(doc, raw);
+  if (!schema || depth > MAX_EXAMPLE_DEPTH) return null;
+  if (schema.example !== undefined) return schema.example;
+  if (schema.default !== undefined) return schema.default;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+  if (Array.isArray(schema.allOf)) {
+    return Object.assign({}, ...schema.allOf.map((part: any) => exampleFor(doc, part, depth + 1)));
+  }
+  const variant = schema.oneOf?.[0] ?? schema.anyOf?.[0];
+  if (variant) return exampleFor(doc, variant, depth + 1);
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type ?? (schema.properties ? 'object' : undefined)) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [key, exampleFor(doc, value, depth + 1)])
+      );
+    case 'array':
+      return [exampleFor(doc, schema.items, depth + 1)];
+    case 'integer':
+    case 'number':
+      return 0;
+    case 'boolean':
+      return true;
+    case 'string':
+      if (schema.format === 'date-time') return '2024-01-01T00:00:00Z';
+      if (schema.format === 'date') return '2024-01-01';
+      if (schema.format === 'uuid') return '00000000-0000-0000-0000-000000000000';
+      if (schema.format === 'email') return 'user@example.com';
+      return 'string';
+    default:
+      return null;
+  }
+};
+
+const jsonBody = (value: unknown) => (value === undefined ? '' : JSON.stringify(value, null, 2));
+
+const baseUrlOf = (doc: Doc) => {
+  if (doc.openapi) return doc.servers?.[0]?.url ?? '';
+  if (!doc.host) return doc.basePath ?? '';
+  return `${doc.schemes?.[0] ?? 'https'}://${doc.host}${doc.basePath ?? ''}`;
+};
+
+// Bearer-style schemes are the only ones the endpoint view renders
+const usesBearer = (doc: Doc, operation: Doc) => {
+  const requirements: Doc[] = operation.security ?? doc.security ?? [];
+  const schemes: Doc = doc.components?.securitySchemes ?? doc.securityDefinitions ?? {};
+  return requirements.some(requirement =>
+    Object.keys(requirement).some(name => {
+      const scheme = resolve(doc, schemes[name]);
+      return scheme?.scheme === 'bearer' || scheme?.type === 'oauth2' || scheme?.type === 'openIdConnect';
+    })
+  );
+};
+
+const requestBodyOf = (doc: Doc, operation: Doc, parameters: Doc[]) => {
+  if (doc.openapi) {
+    const body = resolve(doc, operation.requestBody);
+    const media = body?.content?.['application/json'] ?? Object.values(body?.content ?? {})[0];
+    if (!media) return undefined;
+    return media.example ?? Object.values(media.examples ?? {}).map((e: any) => resolve(doc, e)?.value)[0] ?? exampleFor(doc, media.schema);
+  }
+  const bodyParam = parameters.find(p => p.in === 'body');
+  return bodyParam ? exampleFor(doc, bodyParam.schema) : undefined;
+};
+
+const responsesOf = (doc: Doc, operation: Doc, name: string) =>
+  Object.entries(operation.responses ?? {})
+    .filter(([code]) => /^\d{3}$/.test(code))
+    .map(([code, raw]) => {
+      const response = resolve(doc, raw);
+      const media = doc.openapi
+        ? response?.content?.['application/json'] ?? Object.values(response?.content ?? {})[0]
+        : response;
+      const example = doc.openapi
+        ? media?.example ?? (media?.schema ? exampleFor(doc, media.schema) : undefined)
+        : media?.examples?.['application/json'] ?? (media?.schema ? exampleFor(doc, media.schema) : undefined);
+      return {
+        name: `${name} - ${code}`,
+        code: Number(code),
+        status: STATUS_TEXT[code] ?? response?.description ?? '',
+        header: example !== undefined ? [{ key: 'Content-Type', value: 'application/json' }] : [],
+        body: jsonBody(example),
+      };
+    });
+
+const toItem = (doc: Doc, path: string, method: string, operation: Doc, shared: Doc[], warnings: Warnings): SnapshotItem => {
+  // Operation-level parameters override path-level ones with the same name and location
+  const merged: Doc[] = [...shared, ...(operation.parameters ?? [])].map(p => resolve(doc, p));
+  const parameters = merged.filter((p, index) => !merged.slice(index + 1).some(q => q.name === p.name && q.in === p.in));
+  if (parameters.some(p => p.in === 'formData')) warnings.add('Form data parameters were not imported');
+  if (parameters.some(p => p.in === 'cookie')) warnings.add('Cookie parameters were not imported');
+
+  const segments = path.split('/').filter(Boolean).map(s => s.replace(/^\{(.+)\}$/, ':$1'));
+  const name = operation.summary ?? operation.operationId ?? `${method.toUpperCase()} ${path}`;
+  const query = parameters.filter(p => p.in === 'query');
+  const body = requestBodyOf(doc, operation, parameters);
+
+  const request: PostmanRequest = {
+    method: method.toUpperCase(),
+    description: operation.description ?? operation.summary,
+    header: parameters
+      .filter(p => p.in === 'header')
+      .map(p => ({ key: p.name, value: String(exampleFor(doc, p.schema ?? p) ?? ''), description: p.description })),
+    auth: usesBearer(doc, operation) ? { type: 'bearer', bearer: [{ key: 'token', value: '{{token}}', type: 'string' }] } : undefined,
+    url: {
+      raw: `{{baseUrl}}/${segments.join('/')}${query.length ? `?${query.map(p => `${p.name}=`).join('&')}` : ''}`,
+      host: ['{{baseUrl}}'],
+      path: segments,
+      query: query.map(p => ({ key: p.name, value: '', description: p.description })),
+      variable: parameters
+        .filter(p => p.in === 'path')
+        .map(p => ({ key: p.name, value: '', description: p.description ?? `The ${p.name} path parameter` })),
+    },
+    body: body !== undefined ? { mode: 'raw', raw: jsonBody(body), options: { raw: { language: 'json' } } } : undefined,
+  };
+
+  return {
+    id: `${method}-${segments.join('-').replace(/:/g, '')}`,
+    name,
+    request,
+    response: responsesOf(doc, operation, name),
+  };
+};
+
+export const openApiToCollection = (doc: Doc) => {
+  const warnings = new Warnings();
+  const title: string = doc.info?.title ?? 'Untitled API';
+  const folders = new Map<string, SnapshotItem[]>();
+  const untagged: SnapshotItem[] = [];
+
+  for (const [path, rawPathItem] of Object.entries<Doc>(doc.paths ?? {})) {
+    const pathItem = resolve(doc, rawPathItem);
+    for (const method of METHODS) {
+      const operation = pathItem?.[method];
+      if (!operation) continue;
+      const item = toItem(doc, path, method, operation, pathItem.parameters ?? [], warnings);
+      const tag: string | undefined = operation.tags?.[0];
+      if (tag) {
+        folders.set(tag, [...(folders.get(tag) ?? []), item]);
+      } else {
+        untagged.push(item);
+      }
+    }
+  }
+
+  // resolve() can only follow references within the document itself
+  const externalRefs = JSON.stringify(doc).match(/"\$ref":"(?!#)/g)?.length ?? 0;
+  if (externalRefs) warnings.add(`${externalRefs} external $ref${externalRefs === 1 ? ' was' : 's were'} left unresolved`);
+  const internalRefs = new Set([...JSON.stringify(doc).matchAll(/"\$ref":"(#\/[^"]*)"/g)].map(match => match[1]));
+  const circularRefs = [...internalRefs].filter(ref => isCircular(doc, ref)).length;
+  if (circularRefs) warnings.add(`${circularRefs} circular $ref${circularRefs === 1 ? ' was' : 's were'} left unresolved`);
+  if (doc.webhooks || JSON.stringify(doc.paths ?? {}).includes('"callbacks"')) {
+    warnings.add('Webhooks and callbacks were not imported');
+  }
+
+  const collection: CollectionFile & Record<string, unknown> = {
+    info: {
+      // Stable per API so re-importing a newer spec adds a snapshot instead of a new collection
+      _postman_id: importId('openapi', title, baseUrlOf(doc)),
+      name: title,
+      description: doc.info?.description,
+      version: doc.info?.version,
+      schema: POSTMAN_SCHEMA,
+    } as CollectionFile['info'],
+    item: [
+      ...[...folders].map(([tag, item]) => ({ id: `folder-${slug(tag)}`, name: tag, item })),
+      ...untagged,
+    ],
+    variable: [{ key: 'baseUrl', value: baseUrlOf(doc) }],
+  };
+  return { collection, warnings: warnings.list() };
+};
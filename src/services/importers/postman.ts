@@ -0,0 +1,95 @@
+// Structural check against the parts of the Postman v2.0 / v2.1 collection
+// schemas the backend relies on. Unlike the model validators it keeps going
+// after the first problem, so the import report can say everything that's wrong.
+
+type Node = Record<string, any>;
+
+const SCHEMA_VERSIONS: Record<string, string> = {
+  'https://schema.getpostman.com/json/collection/v2.0.0/collection.json': 'v2.0',
+  'https://schema.getpostman.com/json/collection/v2.1.0/collection.json': 'v2.1',
+};
+
+const BODY_MODES = ['raw', 'urlencoded', 'formdata', 'file', 'graphql'];
+
+// Enough to explain a bad file without flooding the report
+const MAX_PROBLEMS = 10;
+
+const isObject = (value: unknown): value is Node => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Postman's own exporter writes http:// URLs for some versions
+const normalizeSchema = (schema: unknown) => String(schema ?? '').replace(/^http:/, 'https:');
+
+// v1 collections are recognised only so the report can say why they're rejected
+export const isPostmanCollection = (doc: unknown): doc is Node =>
+  isObject(doc) && ((isObject(doc.info) && 'item' in doc) || Array.isArray(doc.requests));
+
+export const postmanVersion = (doc: Node) => SCHEMA_VERSIONS[normalizeSchema(doc.info?.schema)] ?? 'v2.1';
+
+export const postmanSchemaProblems = (doc: unknown): string[] => {
+  const problems: string[] = [];
+  const report = (path: string, message: string) => {
+    if (problems.length < MAX_PROBLEMS) problems.push(`${path}: ${message}`);
+  };
+
+  if (!isObject(doc)) return ['The file is not a JSON object'];
+  if (Array.isArray(doc.requests) && !doc.item) return ['Postman v1 collections are not supported; re-export it as Collection v2.1'];
+
+  if (!isObject(doc.info)) {
+    report('info', 'is missing');
+  } else {
+    if (typeof doc.info.name !== 'string' || !doc.info.name.trim()) report('info.name', 'must be a non-empty string');
+    if (doc.info.schema !== undefined && !SCHEMA_VERSIONS[normalizeSchema(doc.info.schema)]) {
+      report('info.schema', `${doc.info.schema} is not the Postman v2.0 or v2.1 schema`);
+    }
+  }
+
+  const checkRequest = (request: unknown, path: string) => {
+    if (typeof request === 'string') return;
+    if (!isObject(request)) return report(path, 'must be a URL string or a request object');
+    if (request.method !== undefined && typeof request.method !== 'string') report(`${path}.method`, 'must be a string');
+    if (request.url !== undefined && typeof request.url !== 'string' && !isObject(request.url)) {
+      report(`${path}.url`, 'must be a string or a URL object');
+    }
+    if (request.header !== undefined && typeof request.header !== 'string' && !Array.isArray(request.header)) {
+      report(`${path}.header`, 'must be a list');
+    }
+    if (isObject(request.body) && request.body.mode !== undefined && !BODY_MODES.includes(request.body.mode)) {
+      report(`${path}.body.mode`, `"${request.body.mode}" is not one of ${BODY_MODES.join(', ')}`);
+    }
+    if (request.auth !== undefined && request.auth !== null && (!isObject(request.auth) || typeof request.auth.type !== 'string')) {
+      report(`${path}.auth`, 'must have a type');
+    }
+  };
+
+  const checkItems = (items: unknown, path: string) => {
+    if (!Array.isArray(items)) return report(path, 'must be a list');
+    items.forEach((item, index) => {
+      const itemPath = `${path}[${index}]`;
+      if (!isObject(item)) return report(itemPath, 'must be an object');
+      if (typeof item.name !== 'string') report(`${itemPath}.name`, 'must be a string');
+      if (item.item !== undefined) {
+        checkItems(item.item, `${itemPath}.item`);
+      } else if (item.request === undefined) {
+        report(itemPath, 'is neither a folder nor a request');
+      } else {
+        checkRequest(item.request, `${itemPath}.request`);
+        if (item.response !== undefined && !Array.isArray(item.response)) report(`${itemPath}.response`, 'must be a list');
+      }
+    });
+  };
+  checkItems(doc.item, 'item');
+
+  if (doc.variable !== undefined && !Array.isArray(doc.variable)) report('variable', 'must be a list');
+  return problems;
+};
+
+// The schema allows a bare URL string as a request and defaults the method to
+// GET; snapshots expect both spelled out
+const normalizeItems = (items: Node[]): Node[] =>
+  items.map(item => {
+    if (item.item) return { ...item, item: normalizeItems(item.item) };
+    const request = typeof item.request === 'string' ? { url: item.request } : item.request;
+    return { ...item, request: { ...request, method: String(request.method ?? 'GET').toUpperCase() } };
+  });
+
+export const normalizePostman = (doc: Node): Node => ({ ...doc, item: normalizeItems(doc.item) });
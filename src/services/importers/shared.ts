@@ -0,0 +1,107 @@
+import type { SnapshotItem } from '../../models';
+
+export const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// FNV-1a, as a short base-36 string
+const fingerprint = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (const char of value) {
+    hash ^= char.codePointAt(0) ?? 0;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(36);
+};
+
+// Collection id for an imported file. Stable across re-imports of the same API
+// so they add snapshots, while the origin keeps two unrelated APIs that share
+// a title ("API", "Untitled API") from merging into one collection.
+export const importId = (format: string, title: string, origin: string) =>
+  `${format}-${slug(title)}-${fingerprint(origin.trim().toLowerCase())}`;
+
+export const POSTMAN_SCHEMA = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+export interface KeyValue {
+  key: string;
+  value: string;
+  description?: string;
+}
+
+export interface PostmanUrl {
+  raw: string;
+  host: string[];
+  path: string[];
+  query: KeyValue[];
+  variable: KeyValue[];
+}
+
+// Captured URLs aren't always well-formed
+const decode = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+// Splits a raw URL (absolute, or starting with a {{variable}}) into the
+// host/path/query/variable parts Postman stores alongside it
+export const urlFromRaw = (raw: string): PostmanUrl => {
+  const [base, search = ''] = raw.split('?');
+  const match = /^((?:[a-z]+:\/\/)?[^/]*)(.*)$/i.exec(base);
+  const host = match?.[1] ?? '';
+  const path = (match?.[2] ?? '').split('/').filter(Boolean);
+  return {
+    raw,
+    host: host ? [host] : [],
+    path,
+    query: search
+      .split('&')
+      .filter(Boolean)
+      .map(pair => {
+        const [key, value = ''] = pair.split('=');
+        return { key: decode(key), value: decode(value) };
+      }),
+    variable: path.filter(s => s.startsWith(':')).map(s => ({ key: s.slice(1), value: '' })),
+  };
+};
+
+export const bearerAuth = (token: string) => ({ type: 'bearer', bearer: [{ key: 'token', value: token, type: 'string' }] });
+
+export const rawBody = (text: string, language?: string) =>
+  text ? { mode: 'raw', raw: text, ...(language ? { options: { raw: { language } } } : {}) } : undefined;
+
+// Stable across re-imports so the same endpoint lines up between snapshots
+export const itemId = (method: string, url: PostmanUrl) =>
+  `${method.toLowerCase()}-${url.path.join('-').replace(/[:{}]/g, '')}`;
+
+export const countRequests = (items: SnapshotItem[]): number =>
+  items.reduce((total, item) => total + (item.item ? countRequests(item.item) : item.request ? 1 : 0), 0);
+
+export const countFolders = (items: SnapshotItem[]): number =>
+  items.reduce((total, item) => total + (item.item ? 1 + countFolders(item.item) : 0), 0);
+
+export const flattenRequests = (items: SnapshotItem[]): SnapshotItem[] =>
+  items.flatMap(item => (item.item ? flattenRequests(item.item) : item.request ? [item] : []));
+
+// Collects one message per kind of problem, with a count when it repeats
+export class Warnings {
+  private counts = new Map<string, number>();
+
+  add(message: string) {
+    this.counts.set(message, (this.counts.get(message) ?? 0) + 1);
+  }
+
+  list(): string[] {
+    return [...this.counts].map(([message, count]) => (count > 1 ? `${message} (${count}×)` : message));
+  }
+}
+
+// Every {{variable}} the collection uses or declares, for the import preview
+export const collectionVariables = (collection: { item: SnapshotItem[]; variable?: unknown }): string[] => {
+  const names = new Set<string>();
+  for (const match of JSON.stringify(collection.item).matchAll(/\{\{\s*([\w.-]+)\s*\}\}/g)) names.add(match[1]);
+  if (Array.isArray(collection.variable)) {
+    for (const variable of collection.variable) if (variable?.key) names.add(String(variable.key));
+  }
+  return [...names].sort();
+};
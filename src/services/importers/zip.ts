@@ -0,0 +1,73 @@
+// Just enough of the zip format to read the text files out of an exported
+// Bruno collection: stored and deflated entries, no encryption or zip64.
+// Inflating uses the browser's DecompressionStream, so no library is needed.
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// Fixed-size part of the end record plus the longest allowed comment
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+const findEndRecord = (view: DataView) => {
+  const stop = Math.max(0, view.byteLength - MAX_END_RECORD_SEARCH);
+  for (let offset = view.byteLength - 22; offset >= stop; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new ZipFormatError('Not a zip archive');
+};
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Returns every file in the archive as text, keyed by its path
+export const readZip = async (buffer: ArrayBuffer): Promise<Map<string, string>> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+  const end = findEndRecord(view);
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (offset === 0xffffffff) throw new ZipFormatError('Zip64 archives are not supported');
+
+  const files = new Map<string, string>();
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) throw new ZipFormatError('Corrupt zip directory');
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & 1) throw new ZipFormatError('Encrypted zip archives are not supported');
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) throw new ZipFormatError(`Corrupt zip entry ${name}`);
+
+    // The local header's name and extra field can differ in length from the central one
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === STORED) {
+      files.set(name, decoder.decode(data));
+    } else if (method === DEFLATED) {
+      files.set(name, decoder.decode(await inflate(data)));
+    } else {
+      throw new ZipFormatError(`${name} uses an unsupported compression method`);
+    }
+  }
+  return files;
+};
@@ -0,0 +1,151 @@
+import axios from 'axios';
+
+export type QueryKey = readonly unknown[];
+
+export type QueryEvent = 'updated' | 'invalidated';
+
+export interface FetchQueryOptions {
+  signal?: AbortSignal;
+  // How long data counts as fresh before a read triggers a background refresh
+  staleTime?: number;
+}
+
+interface Entry {
+  key: QueryKey;
+  data?: unknown;
+  hasData: boolean;
+  updatedAt: number;
+  inflight?: Promise<unknown>;
+  // Aborts the in-flight request once every caller waiting on it has given up
+  controller?: AbortController;
+  waiters: number;
+}
+
+export const DEFAULT_STALE_TIME = 30_000;
+
+const entries = new Map<string, Entry>();
+const listeners = new Map<string, Set<(event: QueryEvent) => void>>();
+
+const hashKey = (key: QueryKey) => JSON.stringify(key);
+
+const notify = (hash: string, event: QueryEvent) => {
+  listeners.get(hash)?.forEach(listener => listener(event));
+};
+
+const startFetch = <T>(hash: string, key: QueryKey, fetcher: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+  const entry: Entry = entries.get(hash) ?? { key, hasData: false, updatedAt: 0, waiters: 0 };
+  entries.set(hash, entry);
+
+  const controller = new AbortController();
+  entry.controller = controller;
+  entry.waiters = 0;
+  const promise = fetcher(controller.signal).then(data => {
+    // A hard invalidation while this was in flight replaced the entry; don't resurrect it
+    if (entries.get(hash) === entry) {
+      entry.data = data;
+      entry.hasData = true;
+      entry.updatedAt = Date.now();
+      notify(hash, 'updated');
+    }
+    return data;
+  });
+  entry.inflight = promise;
+  promise
+    .finally(() => {
+      if (entry.inflight === promise) entry.inflight = undefined;
+    })
+    .catch(() => {
+      // Failures surface through the awaiting caller; background refreshes fail quietly
+    });
+  return promise;
+};
+
+// Lets one caller stop waiting on data that is already there
+const withSignal = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new axios.CanceledError());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new axios.CanceledError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+const release = (entry: Entry, promise: Promise<unknown>) => {
+  entry.waiters -= 1;
+  if (entry.waiters > 0 || entry.inflight !== promise) return;
+  // Nobody wants the answer any more; later callers start a fresh request
+  entry.inflight = undefined;
+  entry.controller?.abort();
+};
+
+// Joins a shared request. One caller aborting only stops its own wait; the
+// HTTP request itself is cancelled when the last waiter with a signal aborts.
+// Callers without a signal keep it alive until it settles.
+const waitFor = <T>(entry: Entry, promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  entry.waiters += 1;
+  if (!signal) return promise;
+  if (signal.aborted) {
+    release(entry, promise);
+    return Promise.reject(new axios.CanceledError());
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      release(entry, promise);
+      reject(new axios.CanceledError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+// Resolves from cache when fresh, returns stale data while revalidating in
+// the background, and shares a single request between concurrent callers.
+// The fetcher gets a signal to pass on to the HTTP call.
+export const fetchQuery = <T>(
+  key: QueryKey,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  { signal, staleTime = DEFAULT_STALE_TIME }: FetchQueryOptions = {}
+): Promise<T> => {
+  const hash = hashKey(key);
+  const entry = entries.get(hash);
+
+  if (entry?.hasData) {
+    if (Date.now() - entry.updatedAt > staleTime && !entry.inflight) {
+      startFetch(hash, key, fetcher);
+    }
+    return withSignal(Promise.resolve(entry.data as T), signal);
+  }
+
+  const request = (entry?.inflight as Promise<T> | undefined) ?? startFetch(hash, key, fetcher);
+  return waitFor(entries.get(hash)!, request, signal);
+};
+
+export const getQueryData = <T>(key: QueryKey): T | undefined => {
+  const entry = entries.get(hashKey(key));
+  return entry?.hasData ? (entry.data as T) : undefined;
+};
+
+const matches = (key: QueryKey, prefix: QueryKey) =>
+  prefix.every((part, index) => hashKey([part]) === hashKey([key[index]]));
+
+// Drops every entry under the prefix so the next read waits for fresh data,
+// and tells subscribers to refetch.
+export const invalidateQueries = (prefix: QueryKey) => {
+  for (const [hash, entry] of entries) {
+    if (!matches(entry.key, prefix)) continue;
+    entries.delete(hash);
+    notify(hash, 'invalidated');
+  }
+};
+
+export const subscribeQuery = (key: QueryKey, listener: (event: QueryEvent) => void) => {
+  const hash = hashKey(key);
+  const set = listeners.get(hash) ?? new Set();
+  set.add(listener);
+  listeners.set(hash, set);
+  return () => {
+    set.delete(listener);
+    if (set.size === 0) listeners.delete(hash);
+  };
+};
@@ -0,0 +1,137 @@
+import axios from 'axios';
+import type { AxiosError, InternalAxiosRequestConfig } from 'axios';
+
+export interface RetryPolicy {
+  // Total tries including the first one
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryStatuses: number[];
+}
+
+export interface PendingRetry {
+  id: number;
+  method: string;
+  url: string;
+  attempt: number;
+  maxAttempts: number;
+  retryAt: number;
+}
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Per-request override; false disables retries for the call
+    retry?: Partial<RetryPolicy> | false;
+    // Tries made so far, carried across replays by the interceptor
+    retryAttempt?: number;
+  }
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  retryStatuses: [429, 502, 503, 504],
+};
+
+let policy = DEFAULT_RETRY_POLICY;
+
+export const configureRetryPolicy = (overrides: Partial<RetryPolicy>) => {
+  policy = { ...policy, ...overrides };
+};
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+const isIdempotent = (config: InternalAxiosRequestConfig) =>
+  IDEMPOTENT_METHODS.includes((config.method ?? 'get').toLowerCase());
+
+// A 429 is rejected before the server does any work, so even a POST is safe
+// to resend. Anything else on a non-idempotent call may already have been
+// applied (e.g. save-collection) and must not be replayed.
+const isRetryable = (error: AxiosError, config: InternalAxiosRequestConfig, active: RetryPolicy) => {
+  const status = error.response?.status;
+  if (status === 429) return active.retryStatuses.includes(429);
+  if (!isIdempotent(config)) return false;
+  return status === undefined || active.retryStatuses.includes(status);
+};
+
+const retryAfterMs = (error: AxiosError) => {
+  const header = error.response?.headers?.['retry-after'];
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Honours Retry-After when the server sends one, otherwise exponential
+// backoff with full jitter. Both are capped at maxDelayMs.
+const delayFor = (error: AxiosError, attempt: number, active: RetryPolicy) => {
+  const hinted = retryAfterMs(error);
+  if (hinted !== undefined) return Math.min(hinted, active.maxDelayMs);
+  const ceiling = Math.min(active.maxDelayMs, active.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+};
+
+const pending = new Map<number, PendingRetry>();
+const listeners = new Set<(retries: PendingRetry[]) => void>();
+let nextId = 1;
+
+const emit = () => {
+  const snapshot = [...pending.values()];
+  listeners.forEach(listener => listener(snapshot));
+};
+
+export const subscribeRetries = (listener: (retries: PendingRetry[]) => void) => {
+  listeners.add(listener);
+  listener([...pending.values()]);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new axios.CanceledError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new axios.CanceledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Returns the config to replay after waiting out the backoff, or undefined
+// when the error should be surfaced to the caller as-is.
+export const scheduleRetry = async (error: AxiosError): Promise<InternalAxiosRequestConfig | undefined> => {
+  const config = error.config;
+  if (!config || config.retry === false) return undefined;
+
+  const active = { ...policy, ...config.retry };
+  const attempt = (config.retryAttempt ?? 0) + 1;
+  if (attempt >= active.maxAttempts || !isRetryable(error, config, active)) return undefined;
+
+  const delay = delayFor(error, attempt, active);
+  const id = nextId++;
+  pending.set(id, {
+    id,
+    method: (config.method ?? 'get').toUpperCase(),
+    url: config.url ?? '',
+    attempt,
+    maxAttempts: active.maxAttempts,
+    retryAt: Date.now() + delay,
+  });
+  emit();
+
+  try {
+    await wait(delay, config.signal as AbortSignal | undefined);
+  } finally {
+    pending.delete(id);
+    emit();
+  }
+  config.retryAttempt = attempt;
+  return config;
+};
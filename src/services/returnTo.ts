@@ -0,0 +1,17 @@
+const RETURN_TO_PARAM = 'returnTo';
+
+export const LOGIN_PATH = '/app';
+
+// Only same-origin paths are honoured, so the parameter can't be used as an
+// open redirect ("//evil.com" and "/\evil.com" both leave the site).
+const isSafePath = (path: string) => path.startsWith('/') && !path.startsWith('//') && !path.startsWith('/\\');
+
+export const loginUrl = (returnTo: string) =>
+  isSafePath(returnTo) && returnTo !== LOGIN_PATH
+    ? `${LOGIN_PATH}?${RETURN_TO_PARAM}=${encodeURIComponent(returnTo)}`
+    : LOGIN_PATH;
+
+export const getReturnTo = (search = window.location.search): string | undefined => {
+  const returnTo = new URLSearchParams(search).get(RETURN_TO_PARAM);
+  return returnTo && isSafePath(returnTo) ? returnTo : undefined;
+};